@@ -0,0 +1,126 @@
+import {
+  Menubar,
+  MenubarCheckboxItem,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarSeparator,
+  MenubarShortcut,
+  MenubarTrigger,
+} from "./ui/menubar";
+import { CommandId, commandShortcuts, formatShortcut } from "@/lib/shortcuts";
+import type { DocumentTransform } from "@/lib/canvas-commands";
+
+export type MenuCommand =
+  | CommandId
+  | "exportSvg"
+  | "exportSvgCropped"
+  | "resizeImage"
+  | "canvasSize"
+  | "zoomToFit"
+  | "zoomToSelection"
+  | "toggleSnapToGrid"
+  | "toggleSmartGuides"
+  | "clearGuides"
+  | DocumentTransform;
+
+interface AppMenuBarProps {
+  onCommand: (command: MenuCommand) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  hasSelection: boolean;
+  canPaste: boolean;
+  showGrid: boolean;
+  snapToGrid: boolean;
+  smartGuides: boolean;
+  showRulers: boolean;
+  hasGuides: boolean;
+}
+
+export const AppMenuBar = ({ onCommand, canUndo, canRedo, hasSelection, canPaste, showGrid, snapToGrid, smartGuides, showRulers, hasGuides }: AppMenuBarProps) => {
+  const item = (command: MenuCommand, label: string, disabled = false) => (
+    <MenubarItem onSelect={() => onCommand(command)} disabled={disabled}>
+      {label}
+      {command in commandShortcuts && <MenubarShortcut>{formatShortcut(command as CommandId)}</MenubarShortcut>}
+    </MenubarItem>
+  );
+
+  return (
+    <Menubar className="h-8 border-0 rounded-none bg-transparent p-0 space-x-0">
+      <MenubarMenu>
+        <MenubarTrigger className="h-6 px-2 text-xs">File</MenubarTrigger>
+        <MenubarContent>
+          {item("newDocument", "New…")}
+          {item("openLibrary", "Open…")}
+          {item("openProject", "Open Project…")}
+          <MenubarSeparator />
+          {item("saveImage", "Save as PNG")}
+          {item("saveProject", "Save Project")}
+          <MenubarSeparator />
+          {item("importFile", "Import Image or SVG…")}
+          {item("exportImage", "Export Image…")}
+          {item("exportSvg", "Export as SVG")}
+          {item("exportSvgCropped", "Export as SVG (crop to content)")}
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu>
+        <MenubarTrigger className="h-6 px-2 text-xs">Edit</MenubarTrigger>
+        <MenubarContent>
+          {item("undo", "Undo", !canUndo)}
+          {item("redo", "Redo", !canRedo)}
+          <MenubarSeparator />
+          {item("cut", "Cut", !hasSelection)}
+          {item("copy", "Copy", !hasSelection)}
+          {item("paste", "Paste", !canPaste)}
+          {item("deleteSelection", "Delete", !hasSelection)}
+          <MenubarSeparator />
+          {item("selectAll", "Select All")}
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu>
+        <MenubarTrigger className="h-6 px-2 text-xs">View</MenubarTrigger>
+        <MenubarContent>
+          {item("zoomIn", "Zoom In")}
+          {item("zoomOut", "Zoom Out")}
+          {item("zoomReset", "Actual Size")}
+          {item("zoomToFit", "Zoom to Fit")}
+          {item("zoomToSelection", "Zoom to Selection", !hasSelection)}
+          <MenubarSeparator />
+          <MenubarCheckboxItem checked={showGrid} onSelect={() => onCommand("toggleGrid")}>
+            Show Grid
+            <MenubarShortcut>{formatShortcut("toggleGrid")}</MenubarShortcut>
+          </MenubarCheckboxItem>
+          <MenubarCheckboxItem checked={snapToGrid} disabled={!showGrid} onSelect={() => onCommand("toggleSnapToGrid")}>
+            Snap to Grid
+          </MenubarCheckboxItem>
+          <MenubarCheckboxItem checked={smartGuides} onSelect={() => onCommand("toggleSmartGuides")}>
+            Smart Guides
+          </MenubarCheckboxItem>
+          <MenubarSeparator />
+          <MenubarCheckboxItem checked={showRulers} onSelect={() => onCommand("toggleRulers")}>
+            Show Rulers
+            <MenubarShortcut>{formatShortcut("toggleRulers")}</MenubarShortcut>
+          </MenubarCheckboxItem>
+          {item("clearGuides", "Clear Guides", !hasGuides)}
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu>
+        <MenubarTrigger className="h-6 px-2 text-xs">Image</MenubarTrigger>
+        <MenubarContent>
+          {item("resizeImage", "Resize…")}
+          {item("canvasSize", "Canvas Size…")}
+          <MenubarSeparator />
+          {item("flipHorizontal", "Flip Horizontal")}
+          {item("flipVertical", "Flip Vertical")}
+          <MenubarSeparator />
+          {item("rotateRight", "Rotate 90° Right")}
+          {item("rotateLeft", "Rotate 90° Left")}
+          {item("rotate180", "Rotate 180°")}
+        </MenubarContent>
+      </MenubarMenu>
+    </Menubar>
+  );
+};
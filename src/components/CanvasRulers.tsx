@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState } from "react";
+import type { Canvas as FabricCanvas } from "fabric";
+import { Guide, RULER_SIZE, RulerUnit, createGuideId, drawRuler, rulerUnits } from "@/lib/rulers";
+
+interface CanvasRulersProps {
+  canvas: FabricCanvas | null;
+  showRulers: boolean;
+  unit: RulerUnit;
+  onUnitChange: (unit: RulerUnit) => void;
+  guides: Guide[];
+  onGuidesChange: (guides: Guide[]) => void;
+  children: React.ReactNode;
+}
+
+/** Where canvas coordinate 0 sits on screen, relative to the guide overlay. */
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A guide being dragged out of a ruler (`id` null) or an existing guide being moved. */
+interface GuideDrag {
+  id: string | null;
+  axis: Guide["axis"];
+  position: number;
+}
+
+const sameView = (a: ViewState, b: ViewState) =>
+  a.zoom === b.zoom && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+const RulerStrip = ({ orientation, view, unit, onPointerDown }: {
+  orientation: "horizontal" | "vertical";
+  view: ViewState;
+  unit: RulerUnit;
+  onPointerDown: (e: React.PointerEvent) => void;
+}) => {
+  const ref = useRef<HTMLCanvasElement>(null);
+  const horizontal = orientation === "horizontal";
+  const length = horizontal ? view.width : view.height;
+
+  useEffect(() => {
+    const element = ref.current;
+    const ctx = element?.getContext("2d");
+    if (!ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    element.width = (horizontal ? length : RULER_SIZE) * ratio;
+    element.height = (horizontal ? RULER_SIZE : length) * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawRuler(ctx, orientation, length, horizontal ? view.x : view.y, view.zoom, unit);
+  }, [orientation, horizontal, length, view, unit]);
+
+  return (
+    <canvas
+      ref={ref}
+      onPointerDown={onPointerDown}
+      className={horizontal ? "cursor-row-resize" : "cursor-col-resize"}
+      style={horizontal ? { width: length, height: RULER_SIZE } : { width: RULER_SIZE, height: length }}
+      title="Drag to create a guide"
+    />
+  );
+};
+
+/**
+ * Rulers along the top and left of the canvas, plus the guide lines dragged out of
+ * them. Guides are plain HTML over the canvas, so they never end up in exports.
+ */
+export const CanvasRulers = ({ canvas, showRulers, unit, onUnitChange, guides, onGuidesChange, children }: CanvasRulersProps) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<ViewState>({ zoom: 1, x: 0, y: 0, width: 0, height: 0 });
+  const [drag, setDrag] = useState<GuideDrag | null>(null);
+
+  // Follow zoom, pan and resizes of the canvas
+  useEffect(() => {
+    if (!canvas) return;
+    const update = () => {
+      const overlay = overlayRef.current;
+      if (!overlay) return;
+      const canvasRect = canvas.getElement().getBoundingClientRect();
+      const overlayRect = overlay.getBoundingClientRect();
+      const vpt = canvas.viewportTransform;
+      const next = {
+        zoom: canvas.getZoom(),
+        x: canvasRect.left - overlayRect.left + vpt[4],
+        y: canvasRect.top - overlayRect.top + vpt[5],
+        width: overlayRect.width,
+        height: overlayRect.height,
+      };
+      setView((current) => (sameView(current, next) ? current : next));
+    };
+    // Offscreen renders (thumbnails, exports) run under a temporary viewport
+    const handleRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+      if (ctx === canvas.getContext()) update();
+    };
+    update();
+    canvas.on("after:render", handleRender);
+    return () => {
+      canvas.off("after:render", handleRender);
+    };
+  }, [canvas]);
+
+  // Converts a pointer position to a canvas coordinate along the guide's axis,
+  // or null when the pointer has left the canvas (dropping there removes the guide)
+  const toPosition = (e: PointerEvent | React.PointerEvent, axis: Guide["axis"]) => {
+    if (!canvas) return null;
+    const rect = canvas.getElement().getBoundingClientRect();
+    const inside = e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom;
+    const vpt = canvas.viewportTransform;
+    const position =
+      axis === "x" ? (e.clientX - rect.left - vpt[4]) / vpt[0] : (e.clientY - rect.top - vpt[5]) / vpt[3];
+    return { position, inside };
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const point = toPosition(e, drag.axis);
+      if (point) setDrag((current) => current && { ...current, position: point.position });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const point = toPosition(e, drag.axis);
+      setDrag(null);
+      if (!point) return;
+      if (drag.id === null) {
+        if (point.inside) onGuidesChange([...guides, { id: createGuideId(), axis: drag.axis, position: point.position }]);
+      } else if (!point.inside) {
+        onGuidesChange(guides.filter((guide) => guide.id !== drag.id));
+      } else {
+        const moved = guides.find((guide) => guide.id === drag.id);
+        if (moved && moved.position !== point.position) {
+          onGuidesChange(guides.map((guide) => (guide.id === drag.id ? { ...guide, position: point.position } : guide)));
+        }
+      }
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  });
+
+  const startDrag = (e: React.PointerEvent, next: GuideDrag) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag(next);
+  };
+
+  const cycleUnit = () => {
+    const index = rulerUnits.findIndex((entry) => entry.id === unit);
+    onUnitChange(rulerUnits[(index + 1) % rulerUnits.length].id);
+  };
+
+  const shownGuides: GuideDrag[] = [
+    ...guides.filter((guide) => guide.id !== drag?.id),
+    ...(drag ? [drag] : []),
+  ];
+
+  const unitLabel = rulerUnits.find((entry) => entry.id === unit)?.label;
+
+  // The canvas stays at the same place in the tree whether or not rulers are
+  // shown; remounting it would detach the Fabric canvas
+  return (
+    <div
+      className="grid h-full w-full"
+      style={{
+        gridTemplateColumns: showRulers ? `${RULER_SIZE}px minmax(0, 1fr)` : "minmax(0, 1fr)",
+        gridTemplateRows: showRulers ? `${RULER_SIZE}px minmax(0, 1fr)` : "minmax(0, 1fr)",
+      }}
+    >
+      {showRulers && (
+        <button
+          onClick={cycleUnit}
+          className="text-[9px] leading-none bg-slate-50 text-slate-600 border-r border-b border-slate-300 hover:bg-slate-100"
+          title={`Ruler units: ${unitLabel} (click to change)`}
+        >
+          {unit}
+        </button>
+      )}
+      {showRulers && (
+        <RulerStrip
+          orientation="horizontal"
+          view={view}
+          unit={unit}
+          onPointerDown={(e) => startDrag(e, { id: null, axis: "y", position: toPosition(e, "y")?.position ?? 0 })}
+        />
+      )}
+      {showRulers && (
+        <RulerStrip
+          orientation="vertical"
+          view={view}
+          unit={unit}
+          onPointerDown={(e) => startDrag(e, { id: null, axis: "x", position: toPosition(e, "x")?.position ?? 0 })}
+        />
+      )}
+      <div className="relative overflow-hidden">
+        {children}
+        <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+          {shownGuides.map((guide) => {
+            const offset = guide.axis === "x" ? view.x + guide.position * view.zoom : view.y + guide.position * view.zoom;
+            return (
+              <div
+                key={guide.id ?? "new"}
+                onPointerDown={(e) => startDrag(e, { ...guide })}
+                className={
+                  guide.axis === "x"
+                    ? "absolute top-0 bottom-0 w-[5px] -ml-[2px] flex justify-center cursor-col-resize pointer-events-auto"
+                    : "absolute left-0 right-0 h-[5px] -mt-[2px] flex flex-col justify-center cursor-row-resize pointer-events-auto"
+                }
+                style={guide.axis === "x" ? { left: offset } : { top: offset }}
+                title="Drag to move, drag off the canvas to remove"
+              >
+                <div className={guide.axis === "x" ? "w-px h-full bg-cyan-500" : "h-px w-full bg-cyan-500"} />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
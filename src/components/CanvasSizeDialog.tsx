@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { DocumentSizeFields } from "./DocumentSizeFields";
+import { cn } from "@/lib/utils";
+import { DocumentSize, ResizeAnchor, isValidDocumentSize, resizeAnchors } from "@/lib/document-size";
+
+interface CanvasSizeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  size: DocumentSize;
+  onResize: (size: DocumentSize, anchor: ResizeAnchor) => void;
+}
+
+/** Image > Canvas Size: changes the page size without scaling the drawing. */
+export const CanvasSizeDialog = ({ open, onOpenChange, size: currentSize, onResize }: CanvasSizeDialogProps) => {
+  const [size, setSize] = useState(currentSize);
+  const [anchor, setAnchor] = useState<ResizeAnchor>({ x: 0.5, y: 0.5 });
+
+  useEffect(() => {
+    if (!open) return;
+    setSize(currentSize);
+    setAnchor({ x: 0.5, y: 0.5 });
+  }, [open, currentSize]);
+
+  const valid = isValidDocumentSize(size);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    onResize({ width: Math.round(size.width), height: Math.round(size.height) }, anchor);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Canvas Size</DialogTitle>
+          <DialogDescription>
+            Currently {currentSize.width} × {currentSize.height} px. The drawing keeps its size and stays at the anchor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+          <DocumentSizeFields id="canvas-size" size={size} onChange={setSize} />
+
+          <div className="grid grid-cols-[72px_1fr] items-start gap-2">
+            <Label>Anchor</Label>
+            <div className="grid grid-cols-3 gap-1 w-fit">
+              {resizeAnchors.map((option) => {
+                const selected = option.x === anchor.x && option.y === anchor.y;
+                return (
+                  <button
+                    key={`${option.x}-${option.y}`}
+                    type="button"
+                    onClick={() => setAnchor(option)}
+                    className={cn(
+                      "w-7 h-7 border rounded-sm flex items-center justify-center",
+                      selected ? "border-canvas-active bg-canvas-hover" : "border-canvas-border hover:bg-canvas-hover"
+                    )}
+                    title="Keep the drawing here"
+                  >
+                    {selected && <span className="w-2 h-2 rounded-full bg-canvas-active" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!valid}>OK</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
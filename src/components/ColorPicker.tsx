@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { NumberField } from "./NumberField";
+import { Pipette } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { HSVA, formatColor, hslToRgb, hsvToRgb, parseColor, parseHex, rgbToHsl, rgbToHsv, toHex } from "@/lib/color";
+
+type FieldMode = "hex" | "rgb" | "hsl";
+
+/** Shows through wherever a color is transparent. */
+export const CHECKERBOARD = "repeating-conic-gradient(#cbd5e1 0% 25%, #ffffff 0% 50%) 50% / 8px 8px";
+
+const HUE_GRADIENT = "linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)";
+
+interface EyeDropperResult {
+  sRGBHex: string;
+}
+
+type EyeDropperConstructor = new () => { open: () => Promise<EyeDropperResult> };
+
+const getEyeDropper = () => (window as Window & { EyeDropper?: EyeDropperConstructor }).EyeDropper;
+
+interface DragAreaProps {
+  className?: string;
+  style?: React.CSSProperties;
+  /** Pointer position as 0–1 fractions of the area; `done` on release */
+  onDrag: (x: number, y: number, done: boolean) => void;
+  children?: React.ReactNode;
+}
+
+const DragArea = ({ className, style, onDrag, children }: DragAreaProps) => {
+  const report = (e: React.PointerEvent<HTMLDivElement>, done: boolean) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    onDrag(x, y, done);
+  };
+
+  return (
+    <div
+      className={cn("relative cursor-crosshair touch-none select-none", className)}
+      style={style}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        report(e, false);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) report(e, false);
+      }}
+      onPointerUp={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) report(e, true);
+      }}
+    >
+      {children}
+    </div>
+  );
+};
+
+const Thumb = ({ x, y = 0.5 }: { x: number; y?: number }) => (
+  <div
+    className="absolute w-3 h-3 rounded-full border-2 border-white shadow pointer-events-none -translate-x-1/2 -translate-y-1/2"
+    style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+  />
+);
+
+interface ColorPickerProps {
+  /** Any CSS color; empty shows an unset swatch */
+  value: string;
+  /** `commit` is false while a square or slider is still being dragged */
+  onChange: (color: string, commit: boolean) => void;
+  title: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/** Swatch that opens an HSV picker with alpha, numeric fields and an eyedropper. */
+export const ColorPicker = ({ value, onChange, title, disabled, className }: ColorPickerProps) => {
+  const [hsva, setHsva] = useState<HSVA>(() => rgbToHsv(parseColor(value || "#000000")));
+  const [mode, setMode] = useState<FieldMode>("hex");
+  const rgba = hsvToRgb(hsva);
+  const hsla = rgbToHsl(rgba);
+  const current = formatColor(rgba);
+
+  // Follow outside changes, but keep the hue of greys and black picked here
+  useEffect(() => {
+    if (!value) return;
+    setHsva((previous) =>
+      formatColor(hsvToRgb(previous)) === formatColor(parseColor(value)) ? previous : rgbToHsv(parseColor(value))
+    );
+  }, [value]);
+
+  const update = (next: HSVA, commit: boolean) => {
+    setHsva(next);
+    onChange(formatColor(hsvToRgb(next)), commit);
+  };
+
+  const pickFromScreen = async () => {
+    const EyeDropper = getEyeDropper();
+    if (!EyeDropper) return;
+    try {
+      const { sRGBHex } = await new EyeDropper().open();
+      update({ ...rgbToHsv(parseColor(sRGBHex)), a: hsva.a }, true);
+    } catch {
+      // Cancelled with Escape
+    }
+  };
+
+  const alpha = Math.round(hsva.a * 100);
+  const opaque = toHex({ ...rgba, a: 1 });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild disabled={disabled}>
+        <button
+          className={cn(
+            "w-6 h-6 border-2 border-canvas-border rounded cursor-pointer disabled:cursor-default disabled:opacity-50",
+            className
+          )}
+          style={{ background: CHECKERBOARD }}
+          title={title}
+        >
+          <span className="block w-full h-full rounded-sm" style={{ backgroundColor: value || "transparent" }} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-3 space-y-3 text-xs" align="start">
+        <DragArea
+          className="h-32 rounded"
+          style={{ background: `linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, hsl(${hsva.h}, 100%, 50%))` }}
+          onDrag={(x, y, done) => update({ ...hsva, s: x, v: 1 - y }, done)}
+        >
+          <Thumb x={hsva.s} y={1 - hsva.v} />
+        </DragArea>
+
+        <div className="flex items-center gap-2">
+          <div className="flex-1 space-y-2">
+            <DragArea className="h-3 rounded" style={{ background: HUE_GRADIENT }} onDrag={(x, _y, done) => update({ ...hsva, h: x * 360 }, done)}>
+              <Thumb x={hsva.h / 360} />
+            </DragArea>
+            <DragArea
+              className="h-3 rounded"
+              style={{ background: `linear-gradient(to right, transparent, ${opaque}), ${CHECKERBOARD}` }}
+              onDrag={(x, _y, done) => update({ ...hsva, a: Math.round(x * 100) / 100 }, done)}
+            >
+              <Thumb x={hsva.a} />
+            </DragArea>
+          </div>
+          <div className="w-8 h-8 rounded border border-canvas-border" style={{ background: CHECKERBOARD }}>
+            <div className="w-full h-full rounded" style={{ backgroundColor: current }} />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {(["hex", "rgb", "hsl"] as const).map((option) => (
+            <Button
+              key={option}
+              variant={mode === option ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setMode(option)}
+              className="h-6 px-2 text-xs uppercase"
+            >
+              {option}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={pickFromScreen}
+            disabled={!getEyeDropper()}
+            className="h-6 w-6 p-0 ml-auto"
+            title={getEyeDropper() ? "Pick a color from the screen" : "This browser has no eyedropper"}
+          >
+            <Pipette className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {mode === "hex" && (
+          <Input
+            key={current}
+            defaultValue={toHex(rgba)}
+            onBlur={(e) => {
+              const parsed = parseHex(e.target.value);
+              if (parsed) update(rgbToHsv(parsed), true);
+              else {
+                e.target.value = toHex(rgba);
+                toast.error("Enter a hex color like #ff8800");
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            className="h-6 px-1 text-xs font-mono"
+            title="Hex, with optional alpha (#rrggbbaa)"
+          />
+        )}
+
+        {mode === "rgb" && (
+          <div className="grid grid-cols-4 gap-1">
+            {(["r", "g", "b"] as const).map((channel) => (
+              <NumberField
+                key={channel}
+                label={channel.toUpperCase()}
+                value={rgba[channel]}
+                min={0}
+                max={255}
+                onCommit={(n) => update(rgbToHsv({ ...rgba, [channel]: Math.round(n) }), true)}
+              />
+            ))}
+            <NumberField label="A" value={alpha} min={0} max={100} title="Alpha (%)" onCommit={(n) => update({ ...hsva, a: n / 100 }, true)} />
+          </div>
+        )}
+
+        {mode === "hsl" && (
+          <div className="grid grid-cols-4 gap-1">
+            <NumberField label="H" value={hsla.h} min={0} max={360} onCommit={(n) => update(rgbToHsv(hslToRgb({ ...hsla, h: n })), true)} />
+            <NumberField label="S" value={hsla.s} min={0} max={100} onCommit={(n) => update(rgbToHsv(hslToRgb({ ...hsla, s: n })), true)} />
+            <NumberField label="L" value={hsla.l} min={0} max={100} onCommit={(n) => update(rgbToHsv(hslToRgb({ ...hsla, l: n })), true)} />
+            <NumberField label="A" value={alpha} min={0} max={100} title="Alpha (%)" onCommit={(n) => update({ ...hsva, a: n / 100 }, true)} />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
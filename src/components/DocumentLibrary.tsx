@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Copy, FolderOpen, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+  StoredDocument,
+  deleteDocument,
+  duplicateDocument,
+  listDocuments,
+  renameDocument,
+} from "@/lib/document-store";
+
+interface DocumentLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentDocumentId: string | null;
+  onOpenDocument: (document: StoredDocument) => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+  /** Writes pending edits of the open drawing, so copies of it are up to date */
+  onFlush: () => Promise<void>;
+}
+
+export const DocumentLibrary = ({
+  open,
+  onOpenChange,
+  currentDocumentId,
+  onOpenDocument,
+  onRenamed,
+  onDeleted,
+  onFlush,
+}: DocumentLibraryProps) => {
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDocuments(await listDocuments());
+    } catch (error) {
+      toast.error("Could not load saved drawings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      if (id === currentDocumentId) await onFlush();
+      const copy = await duplicateDocument(id);
+      toast.success(`Created "${copy.name}"`);
+      refresh();
+    } catch (error) {
+      toast.error("Could not duplicate drawing");
+    }
+  };
+
+  const handleRename = async () => {
+    const id = editingId;
+    setEditingId(null);
+    if (!id || !draftName.trim()) return;
+    try {
+      const renamed = await renameDocument(id, draftName.trim());
+      onRenamed(id, renamed.name);
+      refresh();
+    } catch (error) {
+      toast.error("Could not rename drawing");
+    }
+  };
+
+  const handleDelete = async (document: StoredDocument) => {
+    if (!window.confirm(`Delete "${document.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteDocument(document.id);
+      onDeleted(document.id);
+      toast.success("Drawing deleted");
+      refresh();
+    } catch (error) {
+      toast.error("Could not delete drawing");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Your drawings</DialogTitle>
+          <DialogDescription>Drawings are saved automatically in this browser.</DialogDescription>
+        </DialogHeader>
+
+        {!loading && documents.length === 0 && (
+          <p className="text-sm text-canvas-text-muted py-8 text-center">No saved drawings yet.</p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto">
+          {documents.map((document) => (
+            <div
+              key={document.id}
+              className={cn(
+                "rounded border border-canvas-border bg-canvas-surface overflow-hidden",
+                document.id === currentDocumentId && "border-canvas-active"
+              )}
+            >
+              <button
+                onClick={() => onOpenDocument(document)}
+                className="block w-full aspect-video bg-white"
+                title={`Open ${document.name}`}
+              >
+                <img src={document.thumbnail} alt={document.name} className="w-full h-full object-contain" />
+              </button>
+              <div className="p-2 space-y-1">
+                {editingId === document.id ? (
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={handleRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="h-6 px-1 text-xs"
+                  />
+                ) : (
+                  <div className="text-xs truncate">{document.name}</div>
+                )}
+                <div className="text-[10px] text-canvas-text-muted">
+                  Edited {new Date(document.updatedAt).toLocaleString()}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onOpenDocument(document)} className="h-6 w-6 p-0" title="Open">
+                    <FolderOpen className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setEditingId(document.id); setDraftName(document.name); }}
+                    className="h-6 w-6 p-0"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDuplicate(document.id)} className="h-6 w-6 p-0" title="Duplicate">
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(document)} className="h-6 w-6 p-0" title="Delete">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,64 @@
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { DocumentSize, MAX_DOCUMENT_SIZE, documentPresets, findPreset } from "@/lib/document-size";
+
+const CUSTOM = "custom";
+
+interface DocumentSizeFieldsProps {
+  id: string;
+  size: DocumentSize;
+  onChange: (size: DocumentSize) => void;
+}
+
+/** Preset picker plus width/height fields, shared by the New and Canvas Size dialogs. */
+export const DocumentSizeFields = ({ id, size, onChange }: DocumentSizeFieldsProps) => {
+  const preset = findPreset(size)?.id ?? CUSTOM;
+
+  return (
+    <div className="grid grid-cols-[72px_1fr_auto] items-center gap-2">
+      <Label htmlFor={`${id}-preset`}>Preset</Label>
+      <Select
+        value={preset}
+        onValueChange={(value) => {
+          const selected = documentPresets.find((entry) => entry.id === value);
+          if (selected) onChange({ width: selected.width, height: selected.height });
+        }}
+      >
+        <SelectTrigger id={`${id}-preset`} className="h-8 col-span-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {documentPresets.map((entry) => (
+            <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+          ))}
+          <SelectItem value={CUSTOM} disabled>Custom</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Label htmlFor={`${id}-width`}>Width</Label>
+      <Input
+        id={`${id}-width`}
+        type="number"
+        min={1}
+        max={MAX_DOCUMENT_SIZE}
+        value={size.width}
+        onChange={(e) => onChange({ ...size, width: Number(e.target.value) })}
+        className="h-8"
+      />
+      <span>px</span>
+
+      <Label htmlFor={`${id}-height`}>Height</Label>
+      <Input
+        id={`${id}-height`}
+        type="number"
+        min={1}
+        max={MAX_DOCUMENT_SIZE}
+        value={size.height}
+        onChange={(e) => onChange({ ...size, height: Number(e.target.value) })}
+        className="h-8"
+      />
+      <span>px</span>
+    </div>
+  );
+};
@@ -1,6 +1,22 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import { Canvas as FabricCanvas, Circle, Rect, Line, PencilBrush, FabricObject, Polygon, FabricText } from "fabric";
+import { Circle, Rect, Line, PencilBrush, Polygon, IText, TPointerEventInfo, TPointerEvent, Path, Point, FabricObject, ActiveSelection, Transform } from "fabric";
 import { Button } from "./ui/button";
+import { LayersPanel } from "./LayersPanel";
+import { NavigatorPanel } from "./NavigatorPanel";
+import { PropertiesPanel } from "./PropertiesPanel";
+import { DocumentLibrary } from "./DocumentLibrary";
+import { ExportDialog } from "./ExportDialog";
+import { AppMenuBar, MenuCommand } from "./AppMenuBar";
+import { ResizeImageDialog } from "./ResizeImageDialog";
+import { CanvasSizeDialog } from "./CanvasSizeDialog";
+import { NewDocumentDialog } from "./NewDocumentDialog";
+import { CanvasRulers } from "./CanvasRulers";
+import { TextPropertiesBar } from "./TextPropertiesBar";
+import { StrokeStyleControls } from "./StrokeStyleControls";
+import { ColorPicker } from "./ColorPicker";
+import { EyedropperLoupe } from "./EyedropperLoupe";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { 
   Brush, 
   Eraser, 
@@ -13,26 +29,54 @@ import {
   ArrowUp,
   Download,
   FileText,
+  FolderOpen,
   RotateCcw,
   RotateCw,
   ZoomIn,
   ZoomOut,
   Grid3X3,
-  Layers,
-  Plus,
-  Trash2,
-  Eye,
-  EyeOff,
   Triangle,
-  Palette
+  Palette,
+  Pipette,
+  PaintBucket
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { ExtendedFabricObject, renderThumbnail, restoreCanvas, serializeCanvas } from "@/lib/canvas-state";
+import { Layer, assignToLayer, createLayer, nextLayerName, normalizeLayers, removeLayerObjects, syncObjectsToLayers } from "@/lib/layers";
+import { downloadBlob, exportRaster, exportSVG, getContentBounds, toFileName } from "@/lib/export";
+import { SVG_MIME_TYPE, SvgImportError, isSvgFile, parseSvgToObjects } from "@/lib/svg-import";
+import { SUPPORTED_IMAGE_TYPES, createImageFromFile, fitToViewport, isSupportedImage } from "@/lib/image-import";
+import { ERASER_PREVIEW_COLOR, applyEraserStroke, drawEraserHighlight, findErasableObjectAt, interpolatePoints } from "@/lib/eraser";
+import { ObjectProperties, isNoPaint, setObjectProperties } from "@/lib/object-properties";
+import { copySelection, deleteSelection, editSelection, offsetDocument, pasteObjects, scaleDocument, selectAll, transformDocument } from "@/lib/canvas-commands";
+import { DocumentCanvas, getPageBounds } from "@/lib/document-canvas";
+import { DocumentSize, ResizeAnchor, getAnchorOffset, normalizeDocumentSize } from "@/lib/document-size";
+import { findCommand, formatShortcut } from "@/lib/shortcuts";
+import { DEFAULT_GRID_SETTINGS, EdgeSnapper, GridSettings, drawGrid, getSnapStep, snapObjectPosition, snapObjectScale, snapPoint, snapToGrid } from "@/lib/grid";
+import { Guide, RulerUnit } from "@/lib/rulers";
+import { getViewportCenter, handleViewportWheel, listenForGestureZoom, panBy, stepZoom, zoomAtPoint, zoomToBounds } from "@/lib/viewport";
+import { NO_SMART_GUIDES, SmartGuideState, collectSnapLines, createEdgeSnapper, drawSmartGuides, getSmartGuides, snapObjectToGuides } from "@/lib/smart-guides";
+import { BRUSH_STROKE_STYLE, DEFAULT_STROKE_STYLE, StrokeStyle, applyStrokeStyle, getStrokeProps, getStrokeStyle, applyStrokeWidth } from "@/lib/stroke-style";
+import { isSameColor, parseColor } from "@/lib/color";
+import { SampleSize, sampleColor, sampleSizes } from "@/lib/eyedropper";
+import { DEFAULT_FILL_SETTINGS, FillSettings, findShapeToFill, floodFill } from "@/lib/fill";
+import { Arrow, ArrowHead, ArrowHeads, DEFAULT_ARROW_HEADS, arrowHeads, isArrow } from "@/lib/arrow";
+import { DEFAULT_TEXT_STYLE, FontOption, MIN_TEXTBOX_WIDTH, TextStyle, applyTextStyle, createText, defaultFonts, ensureFontLoaded, getTextStyle, isTextObject, queryLocalFonts } from "@/lib/text";
+import { PROJECT_FILE_EXTENSION, ProjectFileError, createProjectFile, parseProjectFile } from "@/lib/project-file";
+import { StoredDocument, createDocumentId, getDocument, getLastDocumentId, setLastDocumentId } from "@/lib/document-store";
+import { useCanvasHistory } from "@/hooks/use-canvas-history";
+import { AutosaveStatus, useAutosave } from "@/hooks/use-autosave";
+import { useNativeChange } from "@/hooks/use-native-change";
 
-// Extend Fabric.js object to include custom properties
-interface ExtendedFabricObject extends FabricObject {
-  isTemp?: boolean;
-}
+const UNTITLED_NAME = "Untitled drawing";
+
+const saveStatusLabels: Record<AutosaveStatus, string> = {
+  idle: "Ready",
+  saving: "Saving…",
+  saved: "All changes saved",
+  error: "Autosave failed",
+};
 
 interface Tool {
   id: string;
@@ -46,11 +90,14 @@ const tools: Tool[] = [
   { id: "brush", name: "Brush", icon: Brush, shortcut: "B" },
   { id: "eraser", name: "Eraser", icon: Eraser, shortcut: "E" },
   { id: "line", name: "Line", icon: Minus, shortcut: "L" },
+  { id: "arrow", name: "Arrow", icon: ArrowUp, shortcut: "A" },
   { id: "rectangle", name: "Rectangle", icon: Square, shortcut: "R" },
   { id: "circle", name: "Circle", icon: CircleIcon, shortcut: "C" },
   { id: "triangle", name: "Triangle", icon: Triangle, shortcut: "T" },
   { id: "text", name: "Text", icon: Type, shortcut: "X" },
-  { id: "move", name: "Pan", icon: Move, shortcut: "Space" },
+  { id: "fill", name: "Fill", icon: PaintBucket, shortcut: "G" },
+  { id: "eyedropper", name: "Eyedropper", icon: Pipette, shortcut: "I" },
+  { id: "move", name: "Pan", icon: Move, shortcut: "H" },
 ];
 
 const colorPresets = [
@@ -63,65 +110,356 @@ const colorPresets = [
 
 export const DrawingCanvas = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const [fabricCanvas, setFabricCanvas] = useState<DocumentCanvas | null>(null);
   const [activeTool, setActiveTool] = useState("brush");
+  // Holding Space pans with whatever tool is active
+  const [spacePanning, setSpacePanning] = useState(false);
+  const canvasTool = spacePanning ? "move" : activeTool;
+  const panRef = useRef<Point | null>(null);
   const [strokeColor, setStrokeColor] = useState("#000000");
   const [fillColor, setFillColor] = useState("#ffffff");
   const [strokeWidth, setStrokeWidth] = useState(2);
+  const [strokeStyle, setStrokeStyle] = useState<StrokeStyle>(DEFAULT_STROKE_STYLE);
+  const [brushStyle, setBrushStyle] = useState<StrokeStyle>(BRUSH_STROKE_STYLE);
   const [opacity, setOpacity] = useState(100);
   const [zoom, setZoom] = useState(100);
   const [showGrid, setShowGrid] = useState(false);
-  const [history, setHistory] = useState<string[]>([]);
-  const [historyStep, setHistoryStep] = useState(-1);
-  const [isDrawing, setIsDrawing] = useState(false);
+  const [gridSettings, setGridSettings] = useState<GridSettings>(DEFAULT_GRID_SETTINGS);
+  const [smartGuides, setSmartGuides] = useState(true);
+  const [showRulers, setShowRulers] = useState(true);
+  const [rulerUnit, setRulerUnit] = useState<RulerUnit>("px");
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const guidesRef = useRef(guides);
+  const [documentSize, setDocumentSize] = useState<DocumentSize>(() => normalizeDocumentSize());
+  const documentSizeRef = useRef(documentSize);
+  // Alignment guides for the object currently being moved or resized
+  const smartGuidesRef = useRef<SmartGuideState>(NO_SMART_GUIDES);
   const [hasFill, setHasFill] = useState(false);
-  const [startPoint, setStartPoint] = useState<{x: number, y: number} | null>(null);
+  const [layers, setLayers] = useState<Layer[]>(() => normalizeLayers());
+  const [activeLayerId, setActiveLayerId] = useState(() => layers[0].id);
+  // Read synchronously by history capture, ahead of the next render
+  const layersRef = useRef(layers);
+  const activeLayer = layers.find((layer) => layer.id === activeLayerId);
+  // Hidden or locked layers can't receive new strokes and shapes
+  const canDrawOnLayer = Boolean(activeLayer?.visible && !activeLayer.locked);
+  // Start point of the shape being dragged out
+  const shapeStartRef = useRef<{x: number, y: number} | null>(null);
+  const [eraserMode, setEraserMode] = useState<"pixel" | "object">("pixel");
+  const [sampleSize, setSampleSize] = useState<SampleSize>(1);
+  const [fillSettings, setFillSettings] = useState<FillSettings>(DEFAULT_FILL_SETTINGS);
+  // Object eraser: the object under the pointer, and the drag in progress
+  const eraserHoverRef = useRef<FabricObject | null>(null);
+  const objectEraseRef = useRef<{ last: Point; removed: number } | null>(null);
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [documentName, setDocumentName] = useState(UNTITLED_NAME);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [palette, setPalette] = useState(colorPresets);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  // Document loading for effects that only run once per canvas
+  const documentActionsRef = useRef<{
+    loadDocument: (document: StoredDocument) => Promise<boolean>;
+    startNewDocument: () => void;
+  }>(null);
+  // Toolbar inputs whose drags are committed to history when they end
+  const strokeWidthRef = useRef<HTMLInputElement>(null);
+  const opacityRef = useRef<HTMLInputElement>(null);
+  const [resizeOpen, setResizeOpen] = useState(false);
+  const [canvasSizeOpen, setCanvasSizeOpen] = useState(false);
+  const [newDocumentOpen, setNewDocumentOpen] = useState(false);
+  const [hasSelection, setHasSelection] = useState(false);
+  // Settings for new text, or those of the selected text
+  const [textStyle, setTextStyle] = useState<TextStyle>(DEFAULT_TEXT_STYLE);
+  const [textSelected, setTextSelected] = useState(false);
+  const [fonts, setFonts] = useState<FontOption[]>(defaultFonts);
+  const [localFontsListed, setLocalFontsListed] = useState(false);
+  // Heads for new arrows, or those of the selected arrow
+  const [arrowHeadStyle, setArrowHeadStyle] = useState<ArrowHeads>(DEFAULT_ARROW_HEADS);
+  const [arrowSelected, setArrowSelected] = useState(false);
+  const [clipboard, setClipboard] = useState<FabricObject[]>([]);
+  // Each paste of the same clipboard lands a little further from the original
+  const pasteCountRef = useRef(0);
+
+  const { history, historyStep, canUndo, canRedo, saveState, undo, redo, resetHistory } = useCanvasHistory({
+    capture: () =>
+      fabricCanvas ? serializeCanvas(fabricCanvas, getDocumentLayout()) : null,
+    apply: async (state) => {
+      if (!fabricCanvas) return;
+      const restored = await restoreCanvas(fabricCanvas, state);
+      applyLayers(restored.layers);
+      applyGuides(restored.guides);
+      applyDocumentSize(restored.size);
+    },
+  });
+
+  const applyLayers = (next: Layer[]) => {
+    layersRef.current = next;
+    setLayers(next);
+    setActiveLayerId((current) => (next.some((layer) => layer.id === current) ? current : next[next.length - 1].id));
+    if (fabricCanvas) syncObjectsToLayers(fabricCanvas, next);
+  };
+
+  const applyGuides = (next: Guide[]) => {
+    guidesRef.current = next;
+    setGuides(next);
+  };
+
+  const applyDocumentSize = (next: DocumentSize) => {
+    documentSizeRef.current = next;
+    setDocumentSize(next);
+    fabricCanvas?.setDocumentSize(next);
+  };
+
+  // Read from refs so history captures see changes made earlier in the same event
+  const getDocumentLayout = () => ({
+    layers: layersRef.current,
+    guides: guidesRef.current,
+    size: documentSizeRef.current,
+  });
+
+  // 0 when snapping is off
+  const snapStep = showGrid && gridSettings.snap ? getSnapStep(gridSettings) : 0;
+
+  const { status: saveStatus, flush: flushAutosave, markSaved, discard: discardAutosave } = useAutosave({
+    documentId,
+    documentName,
+    state: historyStep >= 0 ? history[historyStep] : null,
+    getThumbnail: () => (fabricCanvas ? renderThumbnail(fabricCanvas) : ""),
+  });
 
   useEffect(() => {
-    if (!canvasRef.current) return;
+    const container = canvasContainerRef.current;
+    if (!canvasRef.current || !container) return;
 
-    const canvas = new FabricCanvas(canvasRef.current, {
-      width: window.innerWidth,
-      height: window.innerHeight - 120, // More space for top toolbar
+    // The canvas element fills the editor area; the document is a page inside it
+    const canvas = new DocumentCanvas(canvasRef.current, {
+      width: container.clientWidth,
+      height: container.clientHeight,
       backgroundColor: "#ffffff",
       selection: activeTool === "select",
     });
+    canvas.setDocumentSize(documentSizeRef.current);
 
     // Initialize drawing brush
     canvas.freeDrawingBrush = new PencilBrush(canvas);
     canvas.freeDrawingBrush.color = strokeColor;
     canvas.freeDrawingBrush.width = strokeWidth;
 
-    // Add event listeners for drawing completion
-    canvas.on('path:created', () => {
-      setTimeout(saveState, 10);
+    setFabricCanvas(canvas);
+
+    // Only the view changes with the window; the document keeps its size
+    const observer = new ResizeObserver(() => {
+      canvas.setDimensions({ width: container.clientWidth, height: container.clientHeight });
     });
+    observer.observe(container);
 
-    // Mouse events for shape drawing
-    canvas.on('mouse:down', (e) => {
-      if (['line', 'rectangle', 'circle', 'triangle'].includes(activeTool)) {
-        setIsDrawing(true);
-        const pointer = canvas.getPointer(e.e);
-        setStartPoint({ x: pointer.x, y: pointer.y });
-      } else if (activeTool === 'text') {
-        const pointer = canvas.getPointer(e.e);
-        const text = new FabricText('Double click to edit', {
-          left: pointer.x,
-          top: pointer.y,
-          fontFamily: 'Arial',
-          fontSize: 20,
-          fill: strokeColor,
-        });
-        canvas.add(text);
-        canvas.setActiveObject(text);
-        setTimeout(saveState, 10);
+    return () => {
+      observer.disconnect();
+      canvas.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    const updateSelection = () => {
+      const selected = fabricCanvas.getActiveObjects();
+      setHasSelection(selected.length > 0);
+      const text = selected.find(isTextObject);
+      setTextSelected(Boolean(text));
+      if (text) setTextStyle(getTextStyle(text));
+      const stroked = selected.find((obj) => obj.stroke && !isTextObject(obj));
+      if (stroked) setStrokeStyle(getStrokeStyle(stroked));
+      const arrow = selected.find(isArrow);
+      setArrowSelected(Boolean(arrow));
+      if (arrow) setArrowHeadStyle({ startHead: arrow.startHead, endHead: arrow.endHead });
+    };
+    fabricCanvas.on('selection:created', updateSelection);
+    fabricCanvas.on('selection:updated', updateSelection);
+    fabricCanvas.on('selection:cleared', updateSelection);
+    // The text bar follows the cursor while typing
+    fabricCanvas.on('text:selection:changed', updateSelection);
+    fabricCanvas.on('text:editing:exited', updateSelection);
+    return () => {
+      fabricCanvas.off('selection:created', updateSelection);
+      fabricCanvas.off('selection:updated', updateSelection);
+      fabricCanvas.off('selection:cleared', updateSelection);
+      fabricCanvas.off('text:selection:changed', updateSelection);
+      fabricCanvas.off('text:editing:exited', updateSelection);
+    };
+  }, [fabricCanvas]);
+
+  // Reopen the drawing from the previous session, or start a blank one. Runs once
+  // per canvas, so the document functions are read from the latest render.
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    const lastId = getLastDocumentId();
+    (async () => {
+      const { loadDocument, startNewDocument } = documentActionsRef.current;
+      const stored = lastId ? await getDocument(lastId).catch(() => undefined) : undefined;
+      if (!stored || !(await loadDocument(stored))) startNewDocument();
+    })();
+  }, [fabricCanvas]);
+
+  // Drawing handlers are re-bound whenever the tool settings change so they never
+  // read stale state; the in-progress shape lives in a ref.
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    const canvas = fabricCanvas;
+
+    // Puts a freshly drawn object on the active layer and restacks the canvas
+    const addToActiveLayer = (obj: ExtendedFabricObject) =>
+      assignToLayer(canvas, obj, activeLayerId, layersRef.current);
+
+    const handlePathCreated = async ({ path }: { path: Path }) => {
+      if (canvasTool === 'eraser') {
+        // Eraser strokes aren't kept as objects; they are cut out of what they touch
+        canvas.remove(path);
+        await applyEraserStroke(canvas, path, activeLayerId);
+        saveState();
+        return;
       }
-    });
+      addToActiveLayer(path as ExtendedFabricObject);
+      setTimeout(saveState, 10);
+    };
+
+    const isObjectEraser = canvasTool === 'eraser' && eraserMode === 'object';
+    const strokeProps = getStrokeProps(strokeStyle, strokeWidth);
+
+    const getShapePoint = (e: TPointerEventInfo<TPointerEvent>) => {
+      const pointer = canvas.getScenePoint(e.e);
+      return snapStep ? snapPoint(pointer, snapStep) : pointer;
+    };
+
+    // Removes whatever the object eraser passes over between two pointer positions
+    const eraseAlong = (from: Point, to: Point) => {
+      const drag = objectEraseRef.current;
+      interpolatePoints(from, to).forEach((point) => {
+        const target = findErasableObjectAt(canvas, point, activeLayerId);
+        if (!target) return;
+        canvas.remove(target);
+        drag.removed++;
+      });
+    };
+
+    const setEraserHover = (target: FabricObject | null) => {
+      if (eraserHoverRef.current === target) return;
+      eraserHoverRef.current = target;
+      canvas.requestRenderAll();
+    };
+
+    // Whether a click landed outside the text being typed, noted before Fabric ends the editing
+    let finishingText = false;
+    const handleMouseDownBefore = ({ target }: TPointerEventInfo<TPointerEvent>) => {
+      const active = canvas.getActiveObject();
+      finishingText = isTextObject(active) && active.isEditing && target !== active;
+      // The Text tool edits text it clicks straight away; Fabric then puts the caret
+      // under the pointer and handles dragging out a selection
+      if (canvasTool === 'text' && isTextObject(target) && !target.isEditing) {
+        canvas.setActiveObject(target);
+        target.enterEditing();
+      }
+    };
+
+    // Clicking inside a closed shape fills the shape; anywhere else the visible
+    // pixels are flood filled into a new image on the active layer
+    const paintAt = async (e: TPointerEventInfo<TPointerEvent>) => {
+      const shape = findShapeToFill(canvas, e.viewportPoint, activeLayerId);
+      if (shape) {
+        shape.set('fill', strokeColor);
+        canvas.requestRenderAll();
+        saveState();
+        return;
+      }
+      try {
+        const image = await floodFill(canvas, canvas.getScenePoint(e.e), parseColor(strokeColor), fillSettings);
+        if (!image) {
+          toast.error('Nothing to fill there');
+          return;
+        }
+        image.set('opacity', opacity / 100);
+        canvas.add(image);
+        addToActiveLayer(image as ExtendedFabricObject);
+        canvas.requestRenderAll();
+        saveState();
+      } catch (error) {
+        console.error('Fill failed', error);
+        toast.error('Could not fill that area');
+      }
+    };
+
+    const handleMouseDown = (e: TPointerEventInfo<TPointerEvent>) => {
+      if (canvasTool === 'move') {
+        panRef.current = e.viewportPoint;
+        canvas.setCursor('grabbing');
+        return;
+      }
+      // Picking a color doesn't draw anything, so it works on any layer
+      if (canvasTool === 'eyedropper') {
+        const color = sampleColor(canvas, e.viewportPoint, sampleSize);
+        if (!color) {
+          toast.error("Colors can't be read from images loaded from another site");
+        } else if (e.e.altKey) {
+          setFillColor(color);
+          setHasFill(true);
+        } else {
+          setStrokeColor(color);
+        }
+        return;
+      }
+      if (!canDrawOnLayer) {
+        if (canvasTool !== 'select' && canvasTool !== 'move') toast.error(`Layer "${activeLayer?.name}" is hidden or locked`);
+        return;
+      }
+      if (isObjectEraser) {
+        setEraserHover(null);
+        objectEraseRef.current = { last: e.viewportPoint, removed: 0 };
+        eraseAlong(e.viewportPoint, e.viewportPoint);
+        return;
+      }
+      if (canvasTool === 'fill') {
+        paintAt(e);
+        return;
+      }
+      if (['line', 'arrow', 'rectangle', 'circle', 'triangle'].includes(canvasTool)) {
+        const pointer = getShapePoint(e);
+        shapeStartRef.current = { x: pointer.x, y: pointer.y };
+      } else if (canvasTool === 'text') {
+        // Clicks on text on the active layer are left to Fabric
+        if (e.target) return;
+        // The first click outside the text being typed only finishes it
+        if (finishingText) {
+          finishingText = false;
+          return;
+        }
+        const pointer = getShapePoint(e);
+        shapeStartRef.current = { x: pointer.x, y: pointer.y };
+      }
+    };
 
-    canvas.on('mouse:move', (e) => {
-      if (!isDrawing || !startPoint) return;
+    const handleMouseMove = (e: TPointerEventInfo<TPointerEvent>) => {
+      if (panRef.current) {
+        panBy(canvas, e.viewportPoint.x - panRef.current.x, e.viewportPoint.y - panRef.current.y);
+        panRef.current = e.viewportPoint;
+        canvas.setCursor('grabbing');
+        return;
+      }
+      if (isObjectEraser && canDrawOnLayer) {
+        const drag = objectEraseRef.current;
+        if (drag) {
+          eraseAlong(drag.last, e.viewportPoint);
+          drag.last = e.viewportPoint;
+        } else {
+          setEraserHover(findErasableObjectAt(canvas, e.viewportPoint, activeLayerId) ?? null);
+        }
+        return;
+      }
+
+      const startPoint = shapeStartRef.current;
+      if (!startPoint) return;
       
-      const pointer = canvas.getPointer(e.e);
+      const pointer = getShapePoint(e);
       
       // Remove the preview shape if it exists
       const objects = canvas.getObjects() as ExtendedFabricObject[];
@@ -131,15 +469,26 @@ export const DrawingCanvas = () => {
       }
 
       // Create preview shape
-      let shape: any = null;
+      let shape: ExtendedFabricObject | null = null;
       
-      switch (activeTool) {
+      switch (canvasTool) {
         case 'line':
           shape = new Line([startPoint.x, startPoint.y, pointer.x, pointer.y], {
             stroke: strokeColor,
             strokeWidth: strokeWidth,
             fill: '',
             opacity: opacity / 100,
+            ...strokeProps,
+          });
+          break;
+        case 'arrow':
+          shape = new Arrow([startPoint.x, startPoint.y, pointer.x, pointer.y], {
+            ...arrowHeadStyle,
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+            fill: '',
+            opacity: opacity / 100,
+            ...strokeProps,
           });
           break;
         case 'rectangle':
@@ -152,9 +501,10 @@ export const DrawingCanvas = () => {
             strokeWidth: strokeWidth,
             fill: hasFill ? fillColor : 'transparent',
             opacity: opacity / 100,
+            ...strokeProps,
           });
           break;
-        case 'circle':
+        case 'circle': {
           const radius = Math.sqrt(Math.pow(pointer.x - startPoint.x, 2) + Math.pow(pointer.y - startPoint.y, 2)) / 2;
           shape = new Circle({
             left: startPoint.x - radius,
@@ -164,9 +514,27 @@ export const DrawingCanvas = () => {
             strokeWidth: strokeWidth,
             fill: hasFill ? fillColor : 'transparent',
             opacity: opacity / 100,
+            ...strokeProps,
+          });
+          break;
+        }
+        case 'text':
+          // Outline of the text box being dragged out
+          shape = new Rect({
+            left: Math.min(startPoint.x, pointer.x),
+            top: Math.min(startPoint.y, pointer.y),
+            width: Math.abs(pointer.x - startPoint.x),
+            height: Math.abs(pointer.y - startPoint.y),
+            stroke: '#64748b',
+            strokeWidth: 1,
+            strokeDashArray: [4, 4],
+            strokeUniform: true,
+            fill: 'transparent',
+            selectable: false,
+            evented: false,
           });
           break;
-        case 'triangle':
+        case 'triangle': {
           const triangleWidth = pointer.x - startPoint.x;
           const triangleHeight = pointer.y - startPoint.y;
           const points = [
@@ -179,117 +547,260 @@ export const DrawingCanvas = () => {
             strokeWidth: strokeWidth,
             fill: hasFill ? fillColor : 'transparent',
             opacity: opacity / 100,
+            ...strokeProps,
           });
           break;
+        }
       }
 
       if (shape) {
-        (shape as ExtendedFabricObject).isTemp = true;
+        shape.isTemp = true;
         canvas.add(shape);
         canvas.renderAll();
       }
-    });
+    };
 
-    canvas.on('mouse:up', () => {
-      if (isDrawing) {
-        setIsDrawing(false);
-        setStartPoint(null);
+    const handleMouseUp = () => {
+      if (panRef.current) {
+        panRef.current = null;
+        canvas.setCursor(getCursor(canvasTool));
+        return;
+      }
+
+      const drag = objectEraseRef.current;
+      if (drag) {
+        // Everything removed during one drag is a single undo step
+        objectEraseRef.current = null;
+        if (drag.removed > 0) saveState();
+        return;
+      }
+
+      const startPoint = shapeStartRef.current;
+      if (!startPoint) return;
+      shapeStartRef.current = null;
         
-        // Finalize the shape
-        const objects = canvas.getObjects() as ExtendedFabricObject[];
-        const lastObject = objects[objects.length - 1];
-        if (lastObject && lastObject.isTemp) {
-          lastObject.isTemp = false;
-          setTimeout(saveState, 10);
-        }
+      // Finalize the shape
+      const objects = canvas.getObjects() as ExtendedFabricObject[];
+      const lastObject = objects[objects.length - 1];
+
+      if (canvasTool === 'text') {
+        // A click types on one growing line; dragging out a box wraps the text at its width
+        const box = lastObject?.isTemp ? lastObject : null;
+        if (box) canvas.remove(box);
+        const isBox = Boolean(box && box.width >= MIN_TEXTBOX_WIDTH);
+        const origin = isBox ? { x: box.left, y: box.top } : startPoint;
+        const text = createText(origin.x, origin.y, textStyle, strokeColor, isBox ? box.width : undefined);
+        canvas.add(text);
+        addToActiveLayer(text);
+        canvas.setActiveObject(text);
+        text.enterEditing();
+        // The history entry is made once something has been typed
+        return;
       }
-    });
+      if (lastObject && lastObject.isTemp) {
+        lastObject.isTemp = false;
+        addToActiveLayer(lastObject);
+        setTimeout(saveState, 10);
+      }
+    };
 
-    setFabricCanvas(canvas);
-    saveState();
+    const handleAfterRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+      const hovered = eraserHoverRef.current;
+      if (hovered?.canvas === canvas && ctx === canvas.getContext()) drawEraserHighlight(canvas, ctx, hovered);
+    };
 
-    // Resize handler
-    const handleResize = () => {
-      canvas.setDimensions({
-        width: window.innerWidth,
-        height: window.innerHeight - 120,
-      });
+    const handleMouseOut = () => setEraserHover(null);
+
+    canvas.on('path:created', handlePathCreated);
+    canvas.on('mouse:down:before', handleMouseDownBefore);
+    canvas.on('mouse:down', handleMouseDown);
+    canvas.on('mouse:move', handleMouseMove);
+    canvas.on('mouse:up', handleMouseUp);
+    canvas.on('mouse:out', handleMouseOut);
+    canvas.on('after:render', handleAfterRender);
+
+    return () => {
+      canvas.off('path:created', handlePathCreated);
+      canvas.off('mouse:down:before', handleMouseDownBefore);
+      canvas.off('mouse:down', handleMouseDown);
+      canvas.off('mouse:move', handleMouseMove);
+      canvas.off('mouse:up', handleMouseUp);
+      canvas.off('mouse:out', handleMouseOut);
+      canvas.off('after:render', handleAfterRender);
+      setEraserHover(null);
     };
+  }, [fabricCanvas, canvasTool, eraserMode, sampleSize, fillSettings, strokeColor, strokeWidth, fillColor, hasFill, opacity, strokeStyle, textStyle, arrowHeadStyle, activeLayerId, activeLayer, canDrawOnLayer, snapStep, saveState]);
 
-    window.addEventListener('resize', handleResize);
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    const handleAfterRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+      if (showGrid) drawGrid(fabricCanvas, ctx, gridSettings);
+      drawSmartGuides(fabricCanvas, ctx, smartGuidesRef.current);
+    };
+
+    // Holding Ctrl/Cmd while dragging turns all snapping off
+    const isSnapSuspended = (e: TPointerEvent) => e.ctrlKey || e.metaKey;
+
+    // Ruler guides always attract objects; smart guides add other objects' edges
+    const snapsToLines = smartGuides || guides.length > 0;
+
+    const handleObjectMoving = ({ target, e }: { target: FabricObject; e: TPointerEvent }) => {
+      smartGuidesRef.current = NO_SMART_GUIDES;
+      if (isSnapSuspended(e)) return;
+      if (snapStep) snapObjectPosition(target, snapStep);
+      if (!snapsToLines) return;
+      const { lines, boxes } = collectSnapLines(fabricCanvas, target, { objects: smartGuides, guides });
+      snapObjectToGuides(fabricCanvas, target, lines);
+      smartGuidesRef.current = getSmartGuides(target, lines, boxes);
+    };
+
+    const handleObjectScaling = ({ target, transform, e }: { target: FabricObject; transform: Transform; e: TPointerEvent }) => {
+      smartGuidesRef.current = NO_SMART_GUIDES;
+      if (isSnapSuspended(e) || (!snapStep && !snapsToLines)) return;
+      const { lines, boxes } = collectSnapLines(fabricCanvas, target, { objects: smartGuides, guides });
+      const snapToGuide = createEdgeSnapper(fabricCanvas, lines);
+      // A nearby guide wins over the grid
+      const snapEdge: EdgeSnapper = (value, axis) => {
+        const guided = snapToGuide(value, axis);
+        if (guided !== value || !snapStep) return guided;
+        return snapToGrid(value, snapStep);
+      };
+      const proportional = ['tl', 'tr', 'bl', 'br'].includes(transform.corner) && fabricCanvas.uniformScaling !== e.shiftKey;
+      snapObjectScale(target, transform, snapEdge, proportional);
+      smartGuidesRef.current = getSmartGuides(target, lines, boxes);
+    };
+
+    const handleMouseUp = () => {
+      if (smartGuidesRef.current === NO_SMART_GUIDES) return;
+      smartGuidesRef.current = NO_SMART_GUIDES;
+      fabricCanvas.requestRenderAll();
+    };
+
+    fabricCanvas.on('after:render', handleAfterRender);
+    fabricCanvas.on('object:moving', handleObjectMoving);
+    fabricCanvas.on('object:scaling', handleObjectScaling);
+    fabricCanvas.on('mouse:up', handleMouseUp);
+    fabricCanvas.requestRenderAll();
 
     return () => {
-      window.removeEventListener('resize', handleResize);
-      canvas.dispose();
+      fabricCanvas.off('after:render', handleAfterRender);
+      fabricCanvas.off('object:moving', handleObjectMoving);
+      fabricCanvas.off('object:scaling', handleObjectScaling);
+      fabricCanvas.off('mouse:up', handleMouseUp);
     };
-  }, []);
+  }, [fabricCanvas, showGrid, gridSettings, snapStep, smartGuides, guides]);
+
+  // Moving, resizing and rotating in Select mode
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    const handleModified = () => saveState();
+    // Text left empty is dropped; if it had been saved before, the removal is
+    // recorded by the object:modified that follows
+    const handleTextExited = ({ target }: { target: IText }) => {
+      if (target.text.trim() === '') fabricCanvas.remove(target);
+    };
+    fabricCanvas.on('object:modified', handleModified);
+    fabricCanvas.on('text:editing:exited', handleTextExited);
+    return () => {
+      fabricCanvas.off('object:modified', handleModified);
+      fabricCanvas.off('text:editing:exited', handleTextExited);
+    };
+  }, [fabricCanvas, saveState]);
 
   useEffect(() => {
     if (!fabricCanvas) return;
 
     // Update drawing mode based on active tool
-    const isDrawingMode = activeTool === "brush" || activeTool === "eraser";
+    const isDrawingMode = (canvasTool === "brush" || (canvasTool === "eraser" && eraserMode === "pixel")) && canDrawOnLayer;
     fabricCanvas.isDrawingMode = isDrawingMode;
-    fabricCanvas.selection = activeTool === "select";
+    fabricCanvas.selection = canvasTool === "select";
+    // Only the Select tool picks up and moves objects; the Text tool can click into
+    // text on the active layer
+    fabricCanvas.skipTargetFind = canvasTool !== "select" && canvasTool !== "text";
+    fabricCanvas.targetFilter =
+      canvasTool === "text"
+        ? (obj) => canDrawOnLayer && isTextObject(obj) && (obj as ExtendedFabricObject).layerId === activeLayerId
+        : null;
 
-    if (fabricCanvas.freeDrawingBrush) {
-      fabricCanvas.freeDrawingBrush.color = activeTool === "eraser" ? "#ffffff" : strokeColor;
-      fabricCanvas.freeDrawingBrush.width = strokeWidth;
+    const brush = fabricCanvas.freeDrawingBrush;
+    if (brush) {
+      brush.color = canvasTool === "eraser" ? ERASER_PREVIEW_COLOR : strokeColor;
+      brush.width = strokeWidth;
+      // The eraser always cuts with a plain round stroke
+      const { strokeDashArray, strokeLineCap, strokeLineJoin } =
+        getStrokeProps(canvasTool === "eraser" ? BRUSH_STROKE_STYLE : brushStyle, strokeWidth);
+      brush.strokeDashArray = strokeDashArray;
+      brush.strokeLineCap = strokeLineCap;
+      brush.strokeLineJoin = strokeLineJoin;
     }
 
     // Set cursor based on tool
-    const cursor = getCursor(activeTool);
+    const cursor = getCursor(canvasTool);
     fabricCanvas.defaultCursor = cursor;
     fabricCanvas.hoverCursor = cursor;
     fabricCanvas.moveCursor = cursor;
-  }, [activeTool, strokeColor, strokeWidth, fabricCanvas]);
+  }, [canvasTool, eraserMode, strokeColor, strokeWidth, brushStyle, fabricCanvas, canDrawOnLayer, activeLayerId]);
 
   const getCursor = (tool: string) => {
     switch (tool) {
       case "brush": return "crosshair";
       case "eraser": return "crosshair";
       case "move": return "grab";
+      case "text": return "text";
       case "select": return "default";
       default: return "crosshair";
     }
   };
 
-  const saveState = useCallback(() => {
-    if (!fabricCanvas) return;
-    
-    // Filter out temporary objects before saving state
-    const objects = fabricCanvas.getObjects() as ExtendedFabricObject[];
-    const nonTempObjects = objects.filter(obj => !obj.isTemp);
-    
-    const state = JSON.stringify({
-      ...fabricCanvas.toJSON(),
-      objects: nonTempObjects
-    });
-    
-    const newHistory = history.slice(0, historyStep + 1);
-    newHistory.push(state);
-    setHistory(newHistory);
-    setHistoryStep(newHistory.length - 1);
-  }, [fabricCanvas, history, historyStep]);
-
-  const undo = () => {
-    if (historyStep > 0) {
-      const newStep = historyStep - 1;
-      fabricCanvas?.loadFromJSON(history[newStep], () => {
-        fabricCanvas.renderAll();
-        setHistoryStep(newStep);
-      });
-    }
+  // Layer changes update the canvas and become their own undo step
+  const commitLayers = (next: Layer[]) => {
+    applyLayers(next);
+    saveState();
   };
 
-  const redo = () => {
-    if (historyStep < history.length - 1) {
-      const newStep = historyStep + 1;
-      fabricCanvas?.loadFromJSON(history[newStep], () => {
-        fabricCanvas.renderAll();
-        setHistoryStep(newStep);
-      });
-    }
+  const commitGuides = (next: Guide[]) => {
+    applyGuides(next);
+    saveState();
+  };
+
+  const addLayer = () => {
+    const layer = createLayer(nextLayerName(layers));
+    const activeIndex = layers.findIndex((l) => l.id === activeLayerId);
+    const next = [...layers];
+    next.splice(activeIndex + 1, 0, layer);
+    commitLayers(next);
+    setActiveLayerId(layer.id);
+  };
+
+  const deleteLayer = (id: string) => {
+    if (!fabricCanvas || layers.length <= 1) return;
+    removeLayerObjects(fabricCanvas, id);
+    const index = layers.findIndex((l) => l.id === id);
+    const next = layers.filter((l) => l.id !== id);
+    if (id === activeLayerId) setActiveLayerId(next[Math.max(0, index - 1)].id);
+    commitLayers(next);
+  };
+
+  const renameLayer = (id: string, name: string) => {
+    commitLayers(layers.map((l) => (l.id === id ? { ...l, name } : l)));
+  };
+
+  const moveLayer = (id: string, direction: "up" | "down") => {
+    const index = layers.findIndex((l) => l.id === id);
+    const target = direction === "up" ? index + 1 : index - 1;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    commitLayers(next);
+  };
+
+  const toggleLayerVisible = (id: string) => {
+    commitLayers(layers.map((l) => (l.id === id ? { ...l, visible: !l.visible } : l)));
+  };
+
+  const toggleLayerLocked = (id: string) => {
+    commitLayers(layers.map((l) => (l.id === id ? { ...l, locked: !l.locked } : l)));
   };
 
   const handleToolClick = (toolId: string) => {
@@ -297,85 +808,478 @@ export const DrawingCanvas = () => {
     toast.success(`${toolId.charAt(0).toUpperCase() + toolId.slice(1)} tool selected`);
   };
 
-  const clearCanvas = () => {
+  const startNewDocument = (size = documentSizeRef.current) => {
     if (!fabricCanvas) return;
     fabricCanvas.clear();
     fabricCanvas.backgroundColor = "#ffffff";
-    fabricCanvas.renderAll();
-    saveState();
-    toast.success("Canvas cleared");
+    applyDocumentSize(size);
+    zoomToBounds(fabricCanvas, getPageBounds(fabricCanvas));
+
+    const freshLayers = normalizeLayers();
+    applyLayers(freshLayers);
+    setActiveLayerId(freshLayers[0].id);
+    applyGuides([]);
+
+    const id = createDocumentId();
+    setDocumentId(id);
+    setDocumentName(UNTITLED_NAME);
+    // Blank drawings are only written once something is drawn
+    markSaved(id, resetHistory(), UNTITLED_NAME, false);
+  };
+
+  // Replaces the canvas with a document; resolves false if it couldn't be read.
+  // Documents that aren't in the library yet (`stored: false`) get autosaved.
+  const loadDocument = async (document: StoredDocument, { stored = true } = {}) => {
+    if (!fabricCanvas) return false;
+    try {
+      const restored = await restoreCanvas(fabricCanvas, document.state);
+      applyLayers(restored.layers);
+      setActiveLayerId(restored.layers[restored.layers.length - 1].id);
+      applyGuides(restored.guides);
+      applyDocumentSize(restored.size);
+      zoomToBounds(fabricCanvas, getPageBounds(fabricCanvas));
+    } catch (error) {
+      console.error("Failed to open document", error);
+      toast.error(`Could not open "${document.name}"`);
+      return false;
+    }
+
+    setDocumentId(document.id);
+    setDocumentName(document.name);
+    const state = resetHistory();
+    if (stored) {
+      setLastDocumentId(document.id);
+      markSaved(document.id, state, document.name);
+    }
+    return true;
+  };
+
+  documentActionsRef.current = { loadDocument, startNewDocument };
+
+  const clearCanvas = async (size: DocumentSize) => {
+    await flushAutosave();
+    startNewDocument(size);
+    toast.success("New drawing started");
+  };
+
+  const openDocument = async (document: StoredDocument) => {
+    await flushAutosave();
+    if (await loadDocument(document)) {
+      setLibraryOpen(false);
+      toast.success(`Opened "${document.name}"`);
+    }
+  };
+
+  const handleDocumentRenamed = (id: string, name: string) => {
+    if (id === documentId) setDocumentName(name);
+  };
+
+  const handleDocumentDeleted = (id: string) => {
+    discardAutosave(id);
+    if (id === documentId) startNewDocument();
   };
 
-  const saveImage = () => {
+  const saveProject = () => {
     if (!fabricCanvas) return;
-    
-    const dataURL = fabricCanvas.toDataURL({
-      format: "png",
-      quality: 1,
-      multiplier: 1,
+    const state = serializeCanvas(fabricCanvas, getDocumentLayout());
+    const project = createProjectFile(state, {
+      name: documentName,
+      background: typeof fabricCanvas.backgroundColor === "string" ? fabricCanvas.backgroundColor : "#ffffff",
+      palette,
     });
-    
-    const link = document.createElement("a");
-    link.download = "drawing.png";
-    link.href = dataURL;
-    link.click();
-    
+    downloadBlob(new Blob([project], { type: "application/json" }), `${toFileName(documentName)}${PROJECT_FILE_EXTENSION}`);
+    toast.success("Project saved!");
+  };
+
+  const openProjectFile = async (file: File) => {
+    let project: ReturnType<typeof parseProjectFile>;
+    try {
+      project = parseProjectFile(await file.text());
+    } catch (error) {
+      toast.error(error instanceof ProjectFileError ? error.message : "Could not read the project file");
+      return;
+    }
+
+    await flushAutosave();
+    const now = Date.now();
+    const opened = await loadDocument(
+      { id: createDocumentId(), name: project.document.name, state: project.state, thumbnail: "", createdAt: now, updatedAt: now },
+      { stored: false }
+    );
+    if (opened) {
+      if (project.document.palette.length > 0) setPalette(project.document.palette);
+      toast.success(`Opened "${project.document.name}"`);
+    }
+  };
+
+  const handleProjectInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) openProjectFile(file);
+  };
+
+  // Places image and SVG files on the active layer as one undo step
+  const importFiles = async (files: File[], dropPoint?: Point) => {
+    if (!fabricCanvas || files.length === 0) return;
+    const importable = files.filter((file) => isSupportedImage(file) || isSvgFile(file));
+    if (importable.length < files.length) toast.error("Only PNG, JPEG, WebP, GIF and SVG files can be imported");
+    if (importable.length === 0) return;
+    if (!canDrawOnLayer) {
+      toast.error(`Layer "${activeLayer?.name}" is hidden or locked`);
+      return;
+    }
+
+    const added: FabricObject[] = [];
+    for (const file of importable) {
+      try {
+        if (isSvgFile(file)) {
+          const { objects, unsupported } = await parseSvgToObjects(fabricCanvas, await file.text(), dropPoint);
+          added.push(...objects);
+          if (unsupported.length > 0) {
+            toast.warning(`${file.name}: some SVG features aren't supported and were left out (${unsupported.join(", ")})`);
+          }
+        } else {
+          const image = await createImageFromFile(file);
+          fitToViewport(fabricCanvas, image, dropPoint);
+          added.push(image);
+        }
+      } catch (error) {
+        console.error("Import failed", error);
+        toast.error(error instanceof SvgImportError ? `${file.name}: ${error.message}` : `Could not import ${file.name}`);
+      }
+    }
+    if (added.length === 0) return;
+
+    fabricCanvas.add(...added);
+    added.forEach((obj) => ((obj as ExtendedFabricObject).layerId = activeLayerId));
+    syncObjectsToLayers(fabricCanvas, layersRef.current);
+    fabricCanvas.setActiveObject(
+      added.length === 1 ? added[0] : new ActiveSelection(added, { canvas: fabricCanvas })
+    );
+    fabricCanvas.requestRenderAll();
+    saveState();
+    toast.success(importable.length === 1 ? `Imported ${importable[0].name}` : `Imported ${importable.length} files`);
+  };
+
+  const handleImageInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    importFiles(files);
+  };
+
+  const handleCanvasDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleCanvasDrop = (e: React.DragEvent) => {
+    if (!fabricCanvas || e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    const dropPoint = fabricCanvas.getScenePoint(e.nativeEvent);
+    importFiles(Array.from(e.dataTransfer.files), dropPoint);
+  };
+
+  // Saves the page at document size, whatever the current zoom and pan
+  const saveImage = async () => {
+    if (!fabricCanvas) return;
+    const blob = await exportRaster(fabricCanvas, { format: "png", quality: 1, multiplier: 1, region: "canvas", transparent: false });
+    if (!blob) {
+      toast.error("Failed to save image");
+      return;
+    }
+    downloadBlob(blob, `${toFileName(documentName)}.png`);
     toast.success("Image saved!");
   };
 
+  const saveSVG = (cropToContent: boolean) => {
+    if (!fabricCanvas) return;
+    if (cropToContent && !getContentBounds(fabricCanvas)) {
+      toast.error("Nothing to export yet");
+      return;
+    }
+
+    const svg = exportSVG(fabricCanvas, { cropToContent });
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${toFileName(documentName)}.svg`);
+    toast.success("SVG exported!");
+  };
+
   const handleZoom = (direction: "in" | "out" | "reset") => {
     if (!fabricCanvas) return;
-    
-    let newZoom = zoom;
-    if (direction === "in") newZoom = Math.min(zoom + 25, 400);
-    else if (direction === "out") newZoom = Math.max(zoom - 25, 25);
-    else newZoom = 100;
-    
-    setZoom(newZoom);
-    fabricCanvas.setZoom(newZoom / 100);
-    fabricCanvas.renderAll();
+    if (direction === "reset") zoomAtPoint(fabricCanvas, 1, getViewportCenter(fabricCanvas));
+    else stepZoom(fabricCanvas, direction);
+  };
+
+  const zoomToFit = () => {
+    if (fabricCanvas) zoomToBounds(fabricCanvas, getPageBounds(fabricCanvas));
+  };
+
+  const zoomToSelection = () => {
+    const selected = fabricCanvas?.getActiveObject();
+    if (selected) zoomToBounds(fabricCanvas, selected.getBoundingRect());
+  };
+
+  const copy = async () => {
+    if (!fabricCanvas || fabricCanvas.getActiveObjects().length === 0) return false;
+    setClipboard(await copySelection(fabricCanvas));
+    pasteCountRef.current = 0;
+    return true;
+  };
+
+  const paste = async () => {
+    if (!fabricCanvas || clipboard.length === 0) return;
+    if (!canDrawOnLayer) {
+      toast.error(`Layer "${activeLayer?.name}" is hidden or locked`);
+      return;
+    }
+    pasteCountRef.current++;
+    await pasteObjects(fabricCanvas, clipboard, activeLayerId, pasteCountRef.current);
+    syncObjectsToLayers(fabricCanvas, layersRef.current);
+    setActiveTool("select");
+    saveState();
+  };
+
+  const removeSelection = () => {
+    if (fabricCanvas && deleteSelection(fabricCanvas)) saveState();
+  };
+
+  const updateGridSettings = (changes: Partial<GridSettings>) =>
+    setGridSettings((current) => ({ ...current, ...changes }));
+
+  const getSelectedTexts = () => fabricCanvas?.getActiveObjects().filter(isTextObject) ?? [];
+
+  // Text bar changes apply to the selected text, or just the highlighted characters
+  // while typing, as one undo step; they are also used for text added later
+  const updateTextStyle = async (changes: Partial<TextStyle>) => {
+    setTextStyle((current) => ({ ...current, ...changes }));
+    const texts = getSelectedTexts();
+    if (texts.length === 0) {
+      if (changes.fontFamily) await ensureFontLoaded(changes.fontFamily);
+      return;
+    }
+    await applyTextStyle(texts, changes);
+    saveState();
+  };
+
+  // Toolbar color, size and opacity also restyle the selection; text takes the color
+  // as its fill. Drags preview live and make one history entry when they end.
+  const restyleSelection = async (changes: { stroke?: string; strokeWidth?: number; opacity?: number }, commit: boolean) => {
+    if (!fabricCanvas) return;
+    const { stroke, strokeWidth: width, opacity: percent } = changes;
+    const texts = getSelectedTexts();
+    if (stroke !== undefined && texts.length > 0) await applyTextStyle(texts, { fill: stroke });
+    const edited = editSelection(fabricCanvas, (obj) => {
+      // Objects drawn without a stroke, like images and unstroked shapes, don't gain one
+      const stroked = !isTextObject(obj) && !isNoPaint(obj.stroke);
+      if (stroke !== undefined && stroked) obj.set('stroke', stroke);
+      if (width !== undefined && stroked) applyStrokeWidth(obj, width);
+      if (percent !== undefined) obj.set('opacity', percent / 100);
+    });
+    if (edited && commit) saveState();
+  };
+
+  const pickColor = (color: string) => {
+    setStrokeColor(color);
+    restyleSelection({ stroke: color }, true);
+  };
+
+  useNativeChange(strokeWidthRef, (value) => restyleSelection({ strokeWidth: Number(value) }, true));
+  useNativeChange(opacityRef, (value) => restyleSelection({ opacity: Number(value) }, true));
+
+  // Inspector edits; drags preview without a history entry until they are committed
+  const updateSelectionProperties = (changes: Partial<ObjectProperties>, commit: boolean) => {
+    if (!fabricCanvas) return;
+    if (editSelection(fabricCanvas, (obj) => setObjectProperties(obj, changes)) && commit) saveState();
+  };
+
+  // Only the changed settings restyle the selected objects, as one undo step, and apply to what is drawn next
+  const updateStrokeStyle = (changes: Partial<StrokeStyle>) => {
+    // The brush keeps its own style, so round brush ends don't carry over to shapes
+    if (activeTool === "brush") {
+      setBrushStyle((current) => ({ ...current, ...changes }));
+      return;
+    }
+    setStrokeStyle((current) => ({ ...current, ...changes }));
+    const stroked = fabricCanvas?.getActiveObjects().filter((obj) => obj.stroke && !isTextObject(obj)) ?? [];
+    if (stroked.length === 0) return;
+    applyStrokeStyle(stroked, changes);
+    fabricCanvas.requestRenderAll();
+    saveState();
+  };
+
+  // Head changes apply to the selected arrows as one undo step, and to arrows drawn later
+  const updateArrowHeads = (changes: Partial<ArrowHeads>) => {
+    setArrowHeadStyle((current) => ({ ...current, ...changes }));
+    const arrows = fabricCanvas?.getActiveObjects().filter(isArrow) ?? [];
+    if (arrows.length === 0) return;
+    // Heads change the arrow's bounds, so a multi-selection is rebuilt around them
+    editSelection(fabricCanvas, (obj) => {
+      if (isArrow(obj)) obj.set(changes);
+    });
+    saveState();
+  };
+
+  const listLocalFonts = async () => {
+    try {
+      const local = await queryLocalFonts();
+      setFonts([...defaultFonts, ...local]);
+      setLocalFontsListed(true);
+      toast.success(`${local.length} installed fonts added`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't list installed fonts");
+    }
+  };
+
+  const runCommand = (command: MenuCommand) => {
+    if (!fabricCanvas) return;
+    switch (command) {
+      case "newDocument": setNewDocumentOpen(true); break;
+      case "openLibrary": setLibraryOpen(true); break;
+      case "openProject": projectInputRef.current?.click(); break;
+      case "importFile": imageInputRef.current?.click(); break;
+      case "saveImage": saveImage(); break;
+      case "saveProject": saveProject(); break;
+      case "exportImage": setExportOpen(true); break;
+      case "exportSvg": saveSVG(false); break;
+      case "exportSvgCropped": saveSVG(true); break;
+      case "undo": undo(); break;
+      case "redo": redo(); break;
+      case "cut": copy().then((copied) => copied && removeSelection()); break;
+      case "copy": copy(); break;
+      case "paste": paste(); break;
+      case "deleteSelection": removeSelection(); break;
+      case "selectAll":
+        setActiveTool("select");
+        selectAll(fabricCanvas);
+        break;
+      case "zoomIn": handleZoom("in"); break;
+      case "zoomOut": handleZoom("out"); break;
+      case "zoomReset": handleZoom("reset"); break;
+      case "zoomToFit": zoomToFit(); break;
+      case "zoomToSelection": zoomToSelection(); break;
+      case "toggleGrid": setShowGrid((shown) => !shown); break;
+      case "toggleSnapToGrid": updateGridSettings({ snap: !gridSettings.snap }); break;
+      case "toggleSmartGuides": setSmartGuides((enabled) => !enabled); break;
+      case "toggleRulers": setShowRulers((shown) => !shown); break;
+      case "clearGuides": if (guides.length > 0) commitGuides([]); break;
+      case "resizeImage": setResizeOpen(true); break;
+      case "canvasSize": setCanvasSizeOpen(true); break;
+      case "flipHorizontal":
+      case "flipVertical":
+      case "rotateRight":
+      case "rotateLeft":
+      case "rotate180":
+        applyDocumentSize(transformDocument(fabricCanvas, command));
+        saveState();
+        break;
+    }
+  };
+
+  const resizeImage = (scaleX: number, scaleY: number) => {
+    if (!fabricCanvas) return;
+    applyDocumentSize(scaleDocument(fabricCanvas, scaleX, scaleY));
+    saveState();
+    zoomToFit();
+  };
+
+  // Image > Canvas Size: changes the page without scaling, keeping content at the anchor
+  const resizeCanvas = (size: DocumentSize, anchor: ResizeAnchor) => {
+    if (!fabricCanvas) return;
+    const offset = getAnchorOffset(documentSizeRef.current, size, anchor);
+    offsetDocument(fabricCanvas, offset.x, offset.y);
+    applyGuides(guidesRef.current.map((guide) => ({ ...guide, position: guide.position + offset[guide.axis] })));
+    applyDocumentSize(size);
+    saveState();
+    zoomToFit();
   };
 
+  // Pasting image or SVG files from the clipboard imports them; anything else
+  // pastes the objects copied inside the app
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      const files = Array.from(e.clipboardData?.files ?? []).filter((file) => file.type.startsWith("image/"));
+      if (files.length > 0) importFiles(files);
+      else paste();
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  // Wheel and pinch zoom, and keeping the zoom readout in sync with the viewport
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    const handleWheel = ({ e }: { e: WheelEvent }) => handleViewportWheel(fabricCanvas, e);
+    // Thumbnails and exports render offscreen at their own scale
+    const handleRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+      if (ctx === fabricCanvas.getContext()) setZoom(Math.round(fabricCanvas.getZoom() * 100));
+    };
+    fabricCanvas.on('mouse:wheel', handleWheel);
+    fabricCanvas.on('after:render', handleRender);
+    const stopGestureZoom = listenForGestureZoom(fabricCanvas);
+    return () => {
+      fabricCanvas.off('mouse:wheel', handleWheel);
+      fabricCanvas.off('after:render', handleRender);
+      stopGestureZoom();
+    };
+  }, [fabricCanvas]);
+
+  // Temporary panning while Space is held. Only when nothing else has focus, so Space
+  // still presses focused buttons, checkboxes and selects, in dialogs too.
+  useEffect(() => {
+    const canPan = (target: EventTarget | null) => {
+      if (document.querySelector('[role="dialog"]')) return false;
+      if (target === document.body || target === document.documentElement) return true;
+      return target instanceof HTMLCanvasElement && Boolean(canvasContainerRef.current?.contains(target));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !canPan(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) setSpacePanning(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpacePanning(false);
+    };
+    const handleBlur = () => setSpacePanning(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       
+      const command = findCommand(e);
+      // Ctrl+V is left to the browser so the paste event can see clipboard files
+      if (command && command !== "paste") {
+        e.preventDefault();
+        runCommand(command);
+        return;
+      }
+
       const key = e.key.toLowerCase();
       const tool = tools.find(t => t.shortcut?.toLowerCase() === key);
       
-      if (tool) {
+      if (tool && !e.ctrlKey && !e.metaKey && !e.altKey) {
         e.preventDefault();
         handleToolClick(tool.id);
       }
-      
-      if (e.ctrlKey || e.metaKey) {
-        switch (key) {
-          case 'z':
-            e.preventDefault();
-            if (e.shiftKey) redo();
-            else undo();
-            break;
-          case 'y':
-            e.preventDefault();
-            redo();
-            break;
-          case 's':
-            e.preventDefault();
-            saveImage();
-            break;
-        }
-      }
-      
-      if (key === 'delete' && fabricCanvas?.getActiveObject()) {
-        fabricCanvas.remove(fabricCanvas.getActiveObject()!);
-        saveState();
-      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [fabricCanvas, history, historyStep]);
+  });
 
   return (
     <div className="w-full h-screen bg-canvas-bg flex flex-col">
@@ -383,10 +1287,18 @@ export const DrawingCanvas = () => {
       <div className="bg-canvas-panel border-b border-canvas-border">
         {/* File Menu Bar */}
         <div className="h-8 flex items-center px-2 text-sm border-b border-canvas-border">
-          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">File</Button>
-          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">Edit</Button>
-          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">View</Button>
-          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">Image</Button>
+          <AppMenuBar
+            onCommand={runCommand}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            hasSelection={hasSelection}
+            canPaste={clipboard.length > 0}
+            showGrid={showGrid}
+            snapToGrid={gridSettings.snap}
+            smartGuides={smartGuides}
+            showRulers={showRulers}
+            hasGuides={guides.length > 0}
+          />
         </div>
 
         {/* Main Toolbar */}
@@ -419,18 +1331,37 @@ export const DrawingCanvas = () => {
 
             {/* Action Buttons */}
             <div className="flex items-center gap-1">
-              <Button variant="ghost" size="sm" onClick={clearCanvas} className="h-8 px-2">
+              <Button variant="ghost" size="sm" onClick={() => setNewDocumentOpen(true)} className="h-8 px-2" title={`New (${formatShortcut("newDocument")})`}>
                 <FileText className="w-4 h-4 mr-1" />
                 New
               </Button>
-              <Button variant="ghost" size="sm" onClick={saveImage} className="h-8 px-2">
+              <Button variant="ghost" size="sm" onClick={() => setLibraryOpen(true)} className="h-8 px-2" title={`Open (${formatShortcut("openLibrary")})`}>
+                <FolderOpen className="w-4 h-4 mr-1" />
+                Open
+              </Button>
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+                onChange={handleProjectInputChange}
+                className="hidden"
+              />
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept={[...SUPPORTED_IMAGE_TYPES, SVG_MIME_TYPE, ".svg"].join(",")}
+                multiple
+                onChange={handleImageInputChange}
+                className="hidden"
+              />
+              <Button variant="ghost" size="sm" onClick={saveImage} className="h-8 px-2" title={`Save as PNG (${formatShortcut("saveImage")})`}>
                 <Download className="w-4 h-4 mr-1" />
                 Save
               </Button>
-              <Button variant="ghost" size="sm" onClick={undo} disabled={historyStep <= 0} className="h-8 px-2">
+              <Button variant="ghost" size="sm" onClick={undo} disabled={!canUndo} className="h-8 px-2" title={`Undo (${formatShortcut("undo")})`}>
                 <RotateCcw className="w-4 h-4" />
               </Button>
-              <Button variant="ghost" size="sm" onClick={redo} disabled={historyStep >= history.length - 1} className="h-8 px-2">
+              <Button variant="ghost" size="sm" onClick={redo} disabled={!canRedo} className="h-8 px-2" title={`Redo (${formatShortcut("redo")})`}>
                 <RotateCw className="w-4 h-4" />
               </Button>
             </div>
@@ -452,6 +1383,18 @@ export const DrawingCanvas = () => {
               <Button variant="ghost" size="sm" onClick={() => handleZoom("reset")} className="h-8 px-2 text-xs">
                 100%
               </Button>
+              <Button variant="ghost" size="sm" onClick={zoomToFit} className="h-8 px-2 text-xs" title="Zoom to fit">
+                Fit
+              </Button>
+              <Button
+                variant={showGrid ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setShowGrid(!showGrid)}
+                className="h-8 px-2"
+                title={`Show grid (${formatShortcut("toggleGrid")})`}
+              >
+                <Grid3X3 className="w-4 h-4" />
+              </Button>
             </div>
           </div>
 
@@ -461,24 +1404,26 @@ export const DrawingCanvas = () => {
             <div className="flex items-center gap-2">
               <span className="text-xs text-canvas-text-muted">Colors:</span>
               <div className="grid grid-cols-10 gap-1">
-                {colorPresets.map((color) => (
+                {palette.map((color) => (
                   <button
                     key={color}
-                    onClick={() => setStrokeColor(color)}
+                    onClick={() => pickColor(color)}
                     className={cn(
                       "w-5 h-5 border transition-all hover:scale-110",
-                      strokeColor === color ? "border-2 border-canvas-active shadow-canvas-glow" : "border border-canvas-border"
+                      isSameColor(strokeColor, color) ? "border-2 border-canvas-active shadow-canvas-glow" : "border border-canvas-border"
                     )}
                     style={{ backgroundColor: color }}
                     title={`Select ${color}`}
                   />
                 ))}
               </div>
-              <input
-                type="color"
+              <ColorPicker
                 value={strokeColor}
-                onChange={(e) => setStrokeColor(e.target.value)}
-                className="w-6 h-6 border-2 border-canvas-border rounded cursor-pointer ml-2"
+                onChange={(color, commit) => {
+                  setStrokeColor(color);
+                  restyleSelection({ stroke: color }, commit);
+                }}
+                className="ml-2"
                 title="Custom color"
               />
             </div>
@@ -495,12 +1440,113 @@ export const DrawingCanvas = () => {
                   min="1"
                   max="20"
                   value={strokeWidth}
-                  onChange={(e) => setStrokeWidth(Number(e.target.value))}
+                  ref={strokeWidthRef}
+                  onChange={(e) => {
+                    setStrokeWidth(Number(e.target.value));
+                    restyleSelection({ strokeWidth: Number(e.target.value) }, false);
+                  }}
                   className="w-20"
                 />
                 <span className="text-xs w-6 text-center">{strokeWidth}</span>
               </div>
 
+              {activeTool !== "eraser" && <StrokeStyleControls style={activeTool === "brush" ? brushStyle : strokeStyle} onChange={updateStrokeStyle} />}
+
+              {activeTool === "eraser" && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-canvas-text-muted">Eraser:</span>
+                  <Button
+                    variant={eraserMode === "pixel" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setEraserMode("pixel")}
+                    className="h-6 px-2 text-xs"
+                    title="Erase the pixels under the brush"
+                  >
+                    Pixel
+                  </Button>
+                  <Button
+                    variant={eraserMode === "object" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setEraserMode("object")}
+                    className="h-6 px-2 text-xs"
+                    title="Remove whole strokes and shapes"
+                  >
+                    Object
+                  </Button>
+                </div>
+              )}
+
+              {activeTool === "fill" && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-canvas-text-muted">Tolerance:</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={fillSettings.tolerance}
+                    onChange={(e) => setFillSettings({ ...fillSettings, tolerance: Number(e.target.value) })}
+                    className="w-20"
+                    title="How different a pixel may be and still be filled"
+                  />
+                  <span className="text-xs w-8 text-center">{fillSettings.tolerance}%</span>
+                  <Button
+                    variant={fillSettings.contiguous ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setFillSettings({ ...fillSettings, contiguous: true })}
+                    className="h-6 px-2 text-xs"
+                    title="Fill the area connected to the click"
+                  >
+                    Contiguous
+                  </Button>
+                  <Button
+                    variant={!fillSettings.contiguous ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setFillSettings({ ...fillSettings, contiguous: false })}
+                    className="h-6 px-2 text-xs"
+                    title="Fill every matching pixel on the page"
+                  >
+                    Global
+                  </Button>
+                </div>
+              )}
+
+              {activeTool === "eyedropper" && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-canvas-text-muted">Sample:</span>
+                  {sampleSizes.map((size) => (
+                    <Button
+                      key={size.id}
+                      variant={sampleSize === size.id ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setSampleSize(size.id)}
+                      className="h-6 px-2 text-xs"
+                      title={size.id === 1 ? "Pick the exact pixel" : `Average ${size.name} pixels`}
+                    >
+                      {size.name}
+                    </Button>
+                  ))}
+                  <span className="text-xs text-canvas-text-muted">Alt+click picks the fill</span>
+                </div>
+              )}
+
+              {(activeTool === "arrow" || arrowSelected) && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-canvas-text-muted">Heads:</span>
+                  {(["startHead", "endHead"] as const).map((end) => (
+                    <Select key={end} value={arrowHeadStyle[end]} onValueChange={(value) => updateArrowHeads({ [end]: value as ArrowHead })}>
+                      <SelectTrigger className="h-6 w-24 px-2 text-xs" title={end === "startHead" ? "Start arrowhead" : "End arrowhead"}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {arrowHeads.map((head) => (
+                          <SelectItem key={head.id} value={head.id}>{head.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                </div>
+              )}
+
               <div className="flex items-center gap-2">
                 <span className="text-xs text-canvas-text-muted">Fill:</span>
                 <Button
@@ -512,16 +1558,49 @@ export const DrawingCanvas = () => {
                   {hasFill ? "ON" : "OFF"}
                 </Button>
                 {hasFill && (
-                  <input
-                    type="color"
-                    value={fillColor}
-                    onChange={(e) => setFillColor(e.target.value)}
-                    className="w-6 h-6 border border-canvas-border rounded cursor-pointer"
-                    title="Fill color"
-                  />
+                  <ColorPicker value={fillColor} onChange={(color) => setFillColor(color)} title="Fill color" />
                 )}
               </div>
 
+              {showGrid && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-canvas-text-muted">Grid:</span>
+                  <Input
+                    type="number"
+                    min={2}
+                    value={gridSettings.spacing}
+                    onChange={(e) => {
+                      const spacing = Number(e.target.value);
+                      if (spacing >= 2) updateGridSettings({ spacing });
+                    }}
+                    className="h-6 w-14 px-1 text-xs"
+                    title="Grid spacing (px)"
+                  />
+                  <span className="text-xs text-canvas-text-muted">÷</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={gridSettings.subdivisions}
+                    onChange={(e) => {
+                      const subdivisions = Math.round(Number(e.target.value));
+                      if (subdivisions >= 1 && subdivisions <= 10) updateGridSettings({ subdivisions });
+                    }}
+                    className="h-6 w-12 px-1 text-xs"
+                    title="Subdivisions"
+                  />
+                  <Button
+                    variant={gridSettings.snap ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => updateGridSettings({ snap: !gridSettings.snap })}
+                    className="h-6 px-2 text-xs"
+                    title="Snap to grid"
+                  >
+                    Snap
+                  </Button>
+                </div>
+              )}
+
               <div className="flex items-center gap-2">
                 <span className="text-xs text-canvas-text-muted">Opacity:</span>
                 <input
@@ -529,7 +1608,11 @@ export const DrawingCanvas = () => {
                   min="10"
                   max="100"
                   value={opacity}
-                  onChange={(e) => setOpacity(Number(e.target.value))}
+                  ref={opacityRef}
+                  onChange={(e) => {
+                    setOpacity(Number(e.target.value));
+                    restyleSelection({ opacity: Number(e.target.value) }, false);
+                  }}
                   className="w-20"
                 />
                 <span className="text-xs w-8 text-center">{opacity}%</span>
@@ -537,12 +1620,53 @@ export const DrawingCanvas = () => {
             </div>
           </div>
         </div>
+
+        {(activeTool === "text" || textSelected) && (
+          <TextPropertiesBar
+            style={textStyle}
+            fonts={fonts}
+            onChange={updateTextStyle}
+            onLoadLocalFonts={localFontsListed ? undefined : listLocalFonts}
+          />
+        )}
       </div>
 
-      {/* Canvas Area */}
-      <div className="flex-1 bg-canvas-surface flex items-center justify-center p-4">
-        <div className="bg-white shadow-canvas-strong rounded border border-canvas-border">
-          <canvas ref={canvasRef} />
+      <div className="flex-1 flex min-h-0">
+        {/* Canvas Area */}
+        <div
+          className="flex-1 min-w-0 bg-canvas-surface overflow-hidden"
+          onDragOver={handleCanvasDragOver}
+          onDrop={handleCanvasDrop}
+        >
+          <CanvasRulers
+            canvas={fabricCanvas}
+            showRulers={showRulers}
+            unit={rulerUnit}
+            onUnitChange={setRulerUnit}
+            guides={guides}
+            onGuidesChange={commitGuides}
+          >
+            <div ref={canvasContainerRef} className="absolute inset-0">
+              <canvas ref={canvasRef} />
+              {canvasTool === "eyedropper" && <EyedropperLoupe canvas={fabricCanvas} sampleSize={sampleSize} />}
+            </div>
+          </CanvasRulers>
+        </div>
+
+        <div className="w-56 bg-canvas-panel border-l border-canvas-border flex flex-col min-h-0">
+          <NavigatorPanel canvas={fabricCanvas} documentSize={documentSize} zoom={zoom} />
+          <PropertiesPanel canvas={fabricCanvas} onChange={updateSelectionProperties} />
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            onSelect={setActiveLayerId}
+            onAdd={addLayer}
+            onDelete={deleteLayer}
+            onRename={renameLayer}
+            onMove={moveLayer}
+            onToggleVisible={toggleLayerVisible}
+            onToggleLocked={toggleLayerLocked}
+          />
         </div>
       </div>
 
@@ -552,8 +1676,35 @@ export const DrawingCanvas = () => {
         <div className="mx-2">|</div>
         <span>Zoom: {zoom}%</span>
         <div className="mx-2">|</div>
-        <span>Ready</span>
+        <span>{documentSize.width} × {documentSize.height} px</span>
+        <div className="mx-2">|</div>
+        <span>Layer: {activeLayer?.name}</span>
+        <div className="mx-2">|</div>
+        <span>{documentName}</span>
+        <div className="mx-2">|</div>
+        <span>{saveStatusLabels[saveStatus]}</span>
       </div>
+
+      <DocumentLibrary
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        currentDocumentId={documentId}
+        onOpenDocument={openDocument}
+        onRenamed={handleDocumentRenamed}
+        onDeleted={handleDocumentDeleted}
+        onFlush={flushAutosave}
+      />
+
+      <ResizeImageDialog open={resizeOpen} onOpenChange={setResizeOpen} size={documentSize} onResize={resizeImage} />
+      <CanvasSizeDialog open={canvasSizeOpen} onOpenChange={setCanvasSizeOpen} size={documentSize} onResize={resizeCanvas} />
+      <NewDocumentDialog open={newDocumentOpen} onOpenChange={setNewDocumentOpen} defaultSize={documentSize} onCreate={clearCanvas} />
+
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        canvas={fabricCanvas}
+        defaultFileName={toFileName(documentName)}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import type { Canvas as FabricCanvas } from "fabric";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ExportRegion,
+  RasterExportOptions,
+  RasterFormat,
+  downloadBlob,
+  exportRaster,
+  formatFileSize,
+  rasterFormats,
+  resolveExportRegion,
+} from "@/lib/export";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canvas: FabricCanvas | null;
+  defaultFileName: string;
+}
+
+const regionLabels: Record<ExportRegion, string> = {
+  canvas: "Whole canvas",
+  selection: "Selection",
+  content: "Content bounds",
+};
+
+const ESTIMATE_DELAY = 300;
+
+export const ExportDialog = ({ open, onOpenChange, canvas, defaultFileName }: ExportDialogProps) => {
+  const [options, setOptions] = useState<RasterExportOptions>({
+    format: "png",
+    quality: 0.92,
+    multiplier: 1,
+    region: "canvas",
+    transparent: false,
+  });
+  const [fileName, setFileName] = useState(defaultFileName);
+  // Null while estimating; "failed" when the region couldn't be encoded
+  const [estimate, setEstimate] = useState<number | "failed" | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const format = rasterFormats[options.format];
+  const resolved = open && canvas ? resolveExportRegion(canvas, options.region) : null;
+  const outputWidth = resolved ? Math.round(resolved.bounds.width * options.multiplier) : 0;
+  const outputHeight = resolved ? Math.round(resolved.bounds.height * options.multiplier) : 0;
+  const hasSelection = Boolean(canvas && canvas.getActiveObjects().length > 0);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName(defaultFileName);
+    if (!hasSelection) setOptions((current) => (current.region === "selection" ? { ...current, region: "canvas" } : current));
+  }, [open, defaultFileName, hasSelection]);
+
+  // Encodes the image in the background to show a real file size
+  useEffect(() => {
+    if (!open || !canvas) return;
+    setEstimate(null);
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const blob = await exportRaster(canvas, options);
+        if (!cancelled) setEstimate(blob ? blob.size : "failed");
+      } catch (error) {
+        console.error("Export size estimate failed", error);
+        if (!cancelled) setEstimate("failed");
+      }
+    }, ESTIMATE_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, canvas, options]);
+
+  const update = (patch: Partial<RasterExportOptions>) => setOptions((current) => ({ ...current, ...patch }));
+
+  const handleExport = async () => {
+    if (!canvas) return;
+    setExporting(true);
+    try {
+      const blob = await exportRaster(canvas, options);
+      if (!blob) {
+        toast.error("Nothing to export in this region");
+        return;
+      }
+      const baseName = fileName.trim().replace(/\.(png|jpe?g|webp)$/i, "") || "drawing";
+      downloadBlob(blob, `${baseName}.${format.extension}`);
+      toast.success("Image exported!");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Export failed", error);
+      toast.error("Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export image</DialogTitle>
+          <DialogDescription>Choose the format, size and area to export.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-[96px_1fr] items-center gap-2">
+            <Label htmlFor="export-file-name">File name</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                id="export-file-name"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                className="h-8"
+              />
+              <span className="text-canvas-text-muted">.{format.extension}</span>
+            </div>
+
+            <Label>Format</Label>
+            <Select value={options.format} onValueChange={(value) => update({ format: value as RasterFormat })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(rasterFormats) as RasterFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>{rasterFormats[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Label className={format.lossy ? "" : "text-canvas-text-muted"}>Quality</Label>
+            <div className="flex items-center gap-2">
+              <Slider
+                min={10}
+                max={100}
+                step={1}
+                value={[Math.round(options.quality * 100)]}
+                onValueChange={([value]) => update({ quality: value / 100 })}
+                disabled={!format.lossy}
+              />
+              <span className="w-10 text-right">{Math.round(options.quality * 100)}%</span>
+            </div>
+
+            <Label>Scale</Label>
+            <RadioGroup
+              value={String(options.multiplier)}
+              onValueChange={(value) => update({ multiplier: Number(value) })}
+              className="flex gap-3"
+            >
+              {[1, 2, 3, 4].map((scale) => (
+                <div key={scale} className="flex items-center gap-1">
+                  <RadioGroupItem value={String(scale)} id={`export-scale-${scale}`} />
+                  <Label htmlFor={`export-scale-${scale}`}>{scale}x</Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <Label>Region</Label>
+            <Select value={options.region} onValueChange={(value) => update({ region: value as ExportRegion })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(regionLabels) as ExportRegion[]).map((key) => (
+                  <SelectItem key={key} value={key} disabled={key === "selection" && !hasSelection}>
+                    {regionLabels[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Label htmlFor="export-transparent" className={options.format === "jpeg" ? "text-canvas-text-muted" : ""}>
+              Transparent
+            </Label>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="export-transparent"
+                checked={options.transparent && options.format !== "jpeg"}
+                onCheckedChange={(checked) => update({ transparent: checked })}
+                disabled={options.format === "jpeg"}
+              />
+              {options.format === "jpeg" && (
+                <span className="text-xs text-canvas-text-muted">JPEG has no transparency</span>
+              )}
+            </div>
+          </div>
+
+          <div className="rounded border border-canvas-border bg-canvas-surface px-3 py-2 text-xs text-canvas-text-muted">
+            {resolved ? (
+              <>
+                {outputWidth} × {outputHeight} px
+                {" · "}
+                {estimate === null ? "estimating size…" : estimate === "failed" ? "size —" : `about ${formatFileSize(estimate)}`}
+              </>
+            ) : (
+              "This region is empty"
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleExport} disabled={!resolved || exporting}>
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import { Canvas as FabricCanvas, Point, TPointerEvent, TPointerEventInfo } from "fabric";
+import { CHECKERBOARD } from "./ColorPicker";
+import { formatColor } from "@/lib/color";
+import { LOUPE_PIXELS, SampleSize, averagePixels, readPixels } from "@/lib/eyedropper";
+
+/** Screen pixels per sampled pixel. */
+const MAGNIFICATION = 10;
+const LOUPE_SIZE = LOUPE_PIXELS * MAGNIFICATION;
+/** Keeps the loupe clear of the cursor. */
+const POINTER_OFFSET = 16;
+/** Room for the loupe's border and color readout. */
+const LOUPE_HEIGHT = LOUPE_SIZE + 24;
+
+interface EyedropperLoupeProps {
+  canvas: FabricCanvas | null;
+  sampleSize: SampleSize;
+}
+
+interface LoupeState {
+  position: Point;
+  color: string;
+}
+
+/** Magnified view of the pixels under the pointer, outlining the ones that are averaged. */
+export const EyedropperLoupe = ({ canvas, sampleSize }: EyedropperLoupeProps) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [loupe, setLoupe] = useState<LoupeState | null>(null);
+
+  useEffect(() => {
+    if (!canvas) return;
+    let frame = 0;
+    let pointer: Point | null = null;
+
+    // Sampling renders the canvas again, so it happens at most once a frame
+    const update = () => {
+      frame = 0;
+      const preview = previewRef.current?.getContext("2d");
+      const pixels = pointer && readPixels(canvas, pointer, LOUPE_PIXELS);
+      if (!pointer || !pixels) {
+        setLoupe(null);
+        return;
+      }
+      if (preview) {
+        const scratch = document.createElement("canvas");
+        scratch.width = LOUPE_PIXELS;
+        scratch.height = LOUPE_PIXELS;
+        scratch.getContext("2d").putImageData(pixels, 0, 0);
+        preview.imageSmoothingEnabled = false;
+        preview.clearRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+        preview.drawImage(scratch, 0, 0, LOUPE_SIZE, LOUPE_SIZE);
+      }
+      setLoupe({ position: pointer, color: formatColor(averagePixels(pixels, sampleSize)) });
+    };
+
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    const handleMouseMove = ({ viewportPoint }: TPointerEventInfo<TPointerEvent>) => {
+      pointer = viewportPoint;
+      schedule();
+    };
+
+    const handleMouseOut = () => {
+      pointer = null;
+      schedule();
+    };
+
+    canvas.on("mouse:move", handleMouseMove);
+    canvas.on("mouse:out", handleMouseOut);
+    return () => {
+      canvas.off("mouse:move", handleMouseMove);
+      canvas.off("mouse:out", handleMouseOut);
+      cancelAnimationFrame(frame);
+    };
+  }, [canvas, sampleSize]);
+
+  const sampleBox = sampleSize * MAGNIFICATION;
+  const sampleOffset = (LOUPE_SIZE - sampleBox) / 2;
+
+  // Flip to the other side of the pointer near the right and bottom edges
+  const x = loupe?.position.x ?? 0;
+  const y = loupe?.position.y ?? 0;
+  const flipX = canvas && x + POINTER_OFFSET + LOUPE_SIZE > canvas.getWidth();
+  const flipY = canvas && y + POINTER_OFFSET + LOUPE_HEIGHT > canvas.getHeight();
+
+  return (
+    <div
+      className="absolute z-10 pointer-events-none rounded border border-canvas-border bg-canvas-panel shadow-lg"
+      style={{
+        left: flipX ? x - POINTER_OFFSET - LOUPE_SIZE : x + POINTER_OFFSET,
+        top: flipY ? y - POINTER_OFFSET - LOUPE_HEIGHT : y + POINTER_OFFSET,
+        visibility: loupe ? "visible" : "hidden",
+      }}
+    >
+      <div className="relative" style={{ width: LOUPE_SIZE, height: LOUPE_SIZE, background: CHECKERBOARD }}>
+        <canvas ref={previewRef} width={LOUPE_SIZE} height={LOUPE_SIZE} className="block" />
+        <div
+          className="absolute border border-white outline outline-1 outline-black"
+          style={{ left: sampleOffset, top: sampleOffset, width: sampleBox, height: sampleBox }}
+        />
+      </div>
+      <div className="flex items-center gap-1 px-1 py-0.5 text-xs text-canvas-text">
+        <span className="w-3 h-3 rounded-sm border border-canvas-border" style={{ backgroundColor: loupe?.color }} />
+        <span className="font-mono">{loupe?.color}</span>
+      </div>
+    </div>
+  );
+};
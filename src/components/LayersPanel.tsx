@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ChevronDown, ChevronUp, Eye, EyeOff, Layers, Lock, Plus, Trash2, Unlock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Layer } from "@/lib/layers";
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, direction: "up" | "down") => void;
+  onToggleVisible: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+}
+
+export const LayersPanel = ({
+  layers,
+  activeLayerId,
+  onSelect,
+  onAdd,
+  onDelete,
+  onRename,
+  onMove,
+  onToggleVisible,
+  onToggleLocked,
+}: LayersPanelProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = (layer: Layer) => {
+    setEditingId(layer.id);
+    setDraftName(layer.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  // Top layer first, the way layer stacks are usually shown
+  const displayed = [...layers].reverse();
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col text-xs">
+      <div className="h-8 flex items-center justify-between px-2 border-b border-canvas-border">
+        <span className="flex items-center gap-1 text-canvas-text-muted">
+          <Layers className="w-4 h-4" />
+          Layers
+        </span>
+        <Button variant="ghost" size="sm" onClick={onAdd} className="h-6 w-6 p-0" title="Add layer">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {displayed.map((layer, index) => (
+          <div
+            key={layer.id}
+            onClick={() => onSelect(layer.id)}
+            onDoubleClick={() => startRename(layer)}
+            className={cn(
+              "group flex items-center gap-1 px-1 h-8 border-b border-canvas-border cursor-pointer hover:bg-canvas-hover",
+              layer.id === activeLayerId && "bg-canvas-hover border-l-2 border-l-canvas-active"
+            )}
+          >
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => { e.stopPropagation(); onToggleVisible(layer.id); }}
+              className="h-6 w-6 p-0"
+              title={layer.visible ? "Hide layer" : "Show layer"}
+            >
+              {layer.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3 text-canvas-text-muted" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => { e.stopPropagation(); onToggleLocked(layer.id); }}
+              className="h-6 w-6 p-0"
+              title={layer.locked ? "Unlock layer" : "Lock layer"}
+            >
+              {layer.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3 text-canvas-text-muted" />}
+            </Button>
+
+            {editingId === layer.id ? (
+              <Input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="h-6 px-1 text-xs flex-1 min-w-0"
+              />
+            ) : (
+              <span className={cn("flex-1 truncate", !layer.visible && "text-canvas-text-muted")} title="Double click to rename">
+                {layer.name}
+              </span>
+            )}
+
+            <div className="hidden group-hover:flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => { e.stopPropagation(); onMove(layer.id, "up"); }}
+                disabled={index === 0}
+                className="h-6 w-5 p-0"
+                title="Move layer up"
+              >
+                <ChevronUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => { e.stopPropagation(); onMove(layer.id, "down"); }}
+                disabled={index === displayed.length - 1}
+                className="h-6 w-5 p-0"
+                title="Move layer down"
+              >
+                <ChevronDown className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => { e.stopPropagation(); onDelete(layer.id); }}
+                disabled={layers.length <= 1}
+                className="h-6 w-5 p-0"
+                title="Delete layer"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { ChevronDown, ChevronRight, Compass } from "lucide-react";
+import { renderThumbnail } from "@/lib/canvas-state";
+import { DocumentCanvas } from "@/lib/document-canvas";
+import type { DocumentSize } from "@/lib/document-size";
+import { MAX_ZOOM, MIN_ZOOM, getViewportCenter, panBy, zoomAtPoint } from "@/lib/viewport";
+
+const PREVIEW_WIDTH = 208;
+const PREVIEW_HEIGHT = 140;
+/** Redrawing the preview means rendering the whole page, so it trails edits a little. */
+const PREVIEW_DELAY = 250;
+
+interface NavigatorPanelProps {
+  canvas: DocumentCanvas | null;
+  documentSize: DocumentSize;
+  /** Zoom in percent, as shown in the toolbar */
+  zoom: number;
+}
+
+/** Visible part of the canvas in document coordinates. */
+interface VisibleArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const NavigatorPanel = ({ canvas, documentSize, zoom }: NavigatorPanelProps) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [thumbnail, setThumbnail] = useState("");
+  const [visible, setVisible] = useState<VisibleArea | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Preview pixels per document pixel
+  const scale = Math.min(PREVIEW_WIDTH / documentSize.width, PREVIEW_HEIGHT / documentSize.height);
+  const previewWidth = Math.round(documentSize.width * scale);
+  const previewHeight = Math.round(documentSize.height * scale);
+
+  useEffect(() => {
+    if (!canvas || collapsed) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+      // Rendering the thumbnail fires after:render again on its own context
+      if (ctx !== canvas.getContext()) return;
+      const vpt = canvas.viewportTransform;
+      setVisible({
+        left: -vpt[4] / vpt[0],
+        top: -vpt[5] / vpt[3],
+        width: canvas.getWidth() / vpt[0],
+        height: canvas.getHeight() / vpt[3],
+      });
+      if (!timer) {
+        timer = setTimeout(() => {
+          timer = undefined;
+          setThumbnail(renderThumbnail(canvas, Math.max(PREVIEW_WIDTH, PREVIEW_HEIGHT)));
+        }, PREVIEW_DELAY);
+      }
+    };
+
+    canvas.on("after:render", handleRender);
+    canvas.requestRenderAll();
+    return () => {
+      canvas.off("after:render", handleRender);
+      clearTimeout(timer);
+    };
+  }, [canvas, collapsed]);
+
+  // Clicking the preview centres the view there; dragging keeps panning
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canvas || !visible || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / scale;
+    const y = (e.clientY - rect.top) / scale;
+    const insideView =
+      x >= visible.left && x <= visible.left + visible.width && y >= visible.top && y <= visible.top + visible.height;
+    if (!insideView) {
+      const zoomLevel = canvas.getZoom();
+      panBy(canvas, (visible.left + visible.width / 2 - x) * zoomLevel, (visible.top + visible.height / 2 - y) * zoomLevel);
+    }
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!canvas || !drag) return;
+    const zoomLevel = canvas.getZoom();
+    panBy(canvas, (-(e.clientX - drag.x) / scale) * zoomLevel, (-(e.clientY - drag.y) / scale) * zoomLevel);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="border-b border-canvas-border text-xs">
+      <div className="h-8 flex items-center justify-between px-2 border-b border-canvas-border">
+        <span className="flex items-center gap-1 text-canvas-text-muted">
+          <Compass className="w-4 h-4" />
+          Navigator
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setCollapsed(!collapsed)}
+          className="h-6 w-6 p-0"
+          title={collapsed ? "Show navigator" : "Hide navigator"}
+        >
+          {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {!collapsed && (
+        <div className="p-2 space-y-2">
+          <div className="flex items-center justify-center bg-canvas-surface" style={{ height: PREVIEW_HEIGHT + 8 }}>
+            <div
+              className="relative overflow-hidden bg-white shadow-canvas-soft cursor-move touch-none"
+              style={{ width: previewWidth, height: previewHeight }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {thumbnail && <img src={thumbnail} alt="" className="w-full h-full pointer-events-none" draggable={false} />}
+              {visible && (
+                <div
+                  className="absolute border-2 border-canvas-active pointer-events-none"
+                  style={{
+                    left: visible.left * scale,
+                    top: visible.top * scale,
+                    width: visible.width * scale,
+                    height: visible.height * scale,
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Slider
+              min={MIN_ZOOM * 100}
+              max={MAX_ZOOM * 100}
+              step={5}
+              value={[zoom]}
+              onValueChange={([value]) => canvas && zoomAtPoint(canvas, value / 100, getViewportCenter(canvas))}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-canvas-text-muted">{zoom}%</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { DocumentSizeFields } from "./DocumentSizeFields";
+import { DocumentSize, isValidDocumentSize } from "@/lib/document-size";
+
+interface NewDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Size of the current document, offered as the starting point */
+  defaultSize: DocumentSize;
+  onCreate: (size: DocumentSize) => void;
+}
+
+export const NewDocumentDialog = ({ open, onOpenChange, defaultSize, onCreate }: NewDocumentDialogProps) => {
+  const [size, setSize] = useState(defaultSize);
+
+  useEffect(() => {
+    if (open) setSize(defaultSize);
+  }, [open, defaultSize]);
+
+  const valid = isValidDocumentSize(size);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    onCreate({ width: Math.round(size.width), height: Math.round(size.height) });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>New drawing</DialogTitle>
+          <DialogDescription>Choose the size of the page.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+          <DocumentSizeFields id="new-document" size={size} onChange={setSize} />
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!valid}>Create</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { Input } from "./ui/input";
+import { cn } from "@/lib/utils";
+
+interface NumberFieldProps {
+  label?: string;
+  /** Null leaves the field empty, e.g. when the selection has mixed values */
+  value: number | null;
+  onCommit: (value: number) => void;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  title?: string;
+  className?: string;
+}
+
+/** Typed values are applied on Enter or when the field loses focus, so each edit is one step. */
+export const NumberField = ({ label, value, onCommit, min, max, placeholder, disabled, title, className }: NumberFieldProps) => {
+  const [text, setText] = useState("");
+  const [focused, setFocused] = useState(false);
+  const shown = value === null ? "" : String(value);
+
+  useEffect(() => {
+    if (!focused) setText(shown);
+  }, [shown, focused]);
+
+  const commit = () => {
+    const parsed = Number(text);
+    if (text.trim() === "" || !Number.isFinite(parsed) || String(parsed) === shown) {
+      setText(shown);
+      return;
+    }
+    onCommit(Math.min(max ?? Infinity, Math.max(min ?? -Infinity, parsed)));
+  };
+
+  return (
+    <label className={cn("flex items-center gap-1", className)} title={title}>
+      {label && <span className="w-4 text-canvas-text-muted">{label}</span>}
+      <Input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        placeholder={placeholder}
+        disabled={disabled}
+        onFocus={() => setFocused(true)}
+        onBlur={() => {
+          setFocused(false);
+          commit();
+        }}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+          if (e.key === "Escape") setText(shown);
+        }}
+        className="h-6 px-1 text-xs"
+      />
+    </label>
+  );
+};
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from "react";
+import { Canvas as FabricCanvas } from "fabric";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { NumberField } from "./NumberField";
+import { ColorPicker } from "./ColorPicker";
+import { ChevronDown, ChevronRight, SlidersHorizontal } from "lucide-react";
+import { formatColor, parseColor } from "@/lib/color";
+import { MIXED, ObjectProperties, PropertyName, SelectionProperties, getSelectionProperties } from "@/lib/object-properties";
+
+interface PropertiesPanelProps {
+  canvas: FabricCanvas | null;
+  /** `commit` is false while a color or slider is still being dragged */
+  onChange: (changes: Partial<ObjectProperties>, commit: boolean) => void;
+}
+
+interface ColorFieldProps {
+  label: string;
+  value: string | undefined;
+  onChange: (color: string, commit: boolean) => void;
+}
+
+const ColorField = ({ label, value, onChange }: ColorFieldProps) => {
+  const mixed = value === MIXED;
+  const none = value === "";
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="w-10 text-canvas-text-muted">{label}</span>
+      <ColorPicker
+        value={value && !mixed ? value : ""}
+        onChange={onChange}
+        disabled={value === undefined}
+        title={`${label} color`}
+      />
+      <span className="flex-1 truncate text-canvas-text-muted">{mixed ? "Mixed" : none ? "None" : value ? formatColor(parseColor(value)) : "—"}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange("", true)}
+        disabled={value === undefined || none}
+        className="h-6 px-1 text-xs"
+        title={`No ${label.toLowerCase()}`}
+      >
+        None
+      </Button>
+    </div>
+  );
+};
+
+/** Numeric view of the selection that edits it in place. */
+export const PropertiesPanel = ({ canvas, onChange }: PropertiesPanelProps) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [properties, setProperties] = useState<SelectionProperties>({});
+  const [count, setCount] = useState(0);
+  // Tracked through React's focus events, which also bubble out of the color pickers' popovers
+  const focusedRef = useRef<HTMLElement | null>(null);
+
+  // Reading the selection after each render catches drags, undo and edits from anywhere
+  useEffect(() => {
+    if (!canvas || collapsed) return;
+    let previous = "";
+    const handleRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+      if (ctx !== canvas.getContext()) return;
+      const objects = canvas.getActiveObjects();
+      const next = getSelectionProperties(objects);
+      const key = `${objects.length}:${JSON.stringify(next)}`;
+      if (key === previous) return;
+      previous = key;
+      setCount(objects.length);
+      setProperties(next);
+    };
+    canvas.on("after:render", handleRender);
+    canvas.requestRenderAll();
+    return () => {
+      canvas.off("after:render", handleRender);
+    };
+  }, [canvas, collapsed]);
+
+  // A click on the canvas selects something else before the field loses focus, so
+  // the typed value is committed first, to the objects it was typed for
+  useEffect(() => {
+    if (!canvas) return;
+    const handleMouseDownBefore = () => focusedRef.current?.blur();
+    canvas.on("mouse:down:before", handleMouseDownBefore);
+    return () => {
+      canvas.off("mouse:down:before", handleMouseDownBefore);
+    };
+  }, [canvas]);
+
+  const numberField = (name: PropertyName, label: string, title: string, min?: number) => {
+    const value = properties[name] as number | typeof MIXED | undefined;
+    return (
+      <NumberField
+        label={label}
+        title={title}
+        min={min}
+        value={typeof value === "number" ? value : null}
+        placeholder={value === MIXED ? "Mixed" : undefined}
+        disabled={value === undefined}
+        onCommit={(next) => onChange({ [name]: next }, true)}
+      />
+    );
+  };
+
+  const opacity = properties.opacity;
+
+  return (
+    <div
+      className="border-b border-canvas-border text-xs"
+      onFocus={(e) => {
+        focusedRef.current = e.target instanceof HTMLElement ? e.target : null;
+      }}
+      onBlur={() => {
+        focusedRef.current = null;
+      }}
+    >
+      <div className="h-8 flex items-center justify-between px-2 border-b border-canvas-border">
+        <span className="flex items-center gap-1 text-canvas-text-muted">
+          <SlidersHorizontal className="w-4 h-4" />
+          Properties
+          {count > 1 && <span>({count})</span>}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setCollapsed(!collapsed)}
+          className="h-6 w-6 p-0"
+          title={collapsed ? "Show properties" : "Hide properties"}
+        >
+          {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {!collapsed && count === 0 && <div className="p-2 text-canvas-text-muted">Nothing selected</div>}
+
+      {!collapsed && count > 0 && (
+        <div className="p-2 space-y-2">
+          <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+            {numberField("left", "X", "Horizontal position (px)")}
+            {numberField("top", "Y", "Vertical position (px)")}
+            {numberField("width", "W", "Width (px)", 1)}
+            {numberField("height", "H", "Height (px)", 1)}
+            {numberField("angle", "∠", "Rotation (degrees)")}
+            {numberField("cornerRadius", "R", "Corner radius (px)", 0)}
+            {numberField("skewX", "↔", "Horizontal skew (degrees)")}
+            {numberField("skewY", "↕", "Vertical skew (degrees)")}
+          </div>
+
+          <div className="space-y-1">
+            <ColorField
+              label="Stroke"
+              value={properties.stroke}
+              onChange={(stroke, commit) => onChange({ stroke }, commit)}
+            />
+            <div className="flex items-center gap-1">
+              <span className="w-10 text-canvas-text-muted">Width</span>
+              <div className="w-16">{numberField("strokeWidth", "", "Stroke width (px)", 0)}</div>
+            </div>
+            <ColorField
+              label="Fill"
+              value={properties.fill}
+              onChange={(fill, commit) => onChange({ fill }, commit)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="w-10 text-canvas-text-muted">Opacity</span>
+            <Slider
+              min={0}
+              max={100}
+              step={1}
+              value={[typeof opacity === "number" ? opacity : 100]}
+              disabled={opacity === undefined}
+              onValueChange={([value]) => onChange({ opacity: value }, false)}
+              onValueCommit={([value]) => onChange({ opacity: value }, true)}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-canvas-text-muted">{opacity === MIXED ? "Mixed" : `${opacity}%`}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { DocumentSize, MAX_DOCUMENT_SIZE } from "@/lib/document-size";
+
+interface ResizeImageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Current page size, to check the result against the size limit */
+  size: DocumentSize;
+  /** Receives the scale factors, e.g. 0.5 for 50% */
+  onResize: (scaleX: number, scaleY: number) => void;
+}
+
+export const ResizeImageDialog = ({ open, onOpenChange, size, onResize }: ResizeImageDialogProps) => {
+  const [horizontal, setHorizontal] = useState(100);
+  const [vertical, setVertical] = useState(100);
+  const [keepRatio, setKeepRatio] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setHorizontal(100);
+    setVertical(100);
+  }, [open]);
+
+  const resultWidth = Math.round((size.width * horizontal) / 100);
+  const resultHeight = Math.round((size.height * vertical) / 100);
+  const tooLarge = resultWidth > MAX_DOCUMENT_SIZE || resultHeight > MAX_DOCUMENT_SIZE;
+  const valid = horizontal > 0 && vertical > 0 && !tooLarge;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    onResize(horizontal / 100, vertical / 100);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xs">
+        <DialogHeader>
+          <DialogTitle>Resize</DialogTitle>
+          <DialogDescription>Scale the whole drawing by a percentage.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+          <div className="grid grid-cols-[96px_1fr_auto] items-center gap-2">
+            <Label htmlFor="resize-horizontal">Horizontal</Label>
+            <Input
+              id="resize-horizontal"
+              type="number"
+              min={1}
+              value={horizontal}
+              onChange={(e) => {
+                setHorizontal(Number(e.target.value));
+                if (keepRatio) setVertical(Number(e.target.value));
+              }}
+              className="h-8"
+            />
+            <span>%</span>
+
+            <Label htmlFor="resize-vertical">Vertical</Label>
+            <Input
+              id="resize-vertical"
+              type="number"
+              min={1}
+              value={vertical}
+              onChange={(e) => {
+                setVertical(Number(e.target.value));
+                if (keepRatio) setHorizontal(Number(e.target.value));
+              }}
+              className="h-8"
+            />
+            <span>%</span>
+          </div>
+
+          <p className={tooLarge ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+            {tooLarge
+              ? `The page can be at most ${MAX_DOCUMENT_SIZE} × ${MAX_DOCUMENT_SIZE} px; this would make it ${resultWidth} × ${resultHeight} px.`
+              : `New size: ${resultWidth} × ${resultHeight} px`}
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="resize-keep-ratio" checked={keepRatio} onCheckedChange={(checked) => setKeepRatio(checked === true)} />
+            <Label htmlFor="resize-keep-ratio">Maintain aspect ratio</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!valid}>OK</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  DashStyle,
+  LineCap,
+  LineJoin,
+  StrokeStyle,
+  dashStyles,
+  formatDashArray,
+  lineCaps,
+  lineJoins,
+  parseDashArray,
+} from "@/lib/stroke-style";
+
+interface StrokeStyleControlsProps {
+  style: StrokeStyle;
+  /** Called with only the settings that changed */
+  onChange: (changes: Partial<StrokeStyle>) => void;
+}
+
+/** Dash pattern, cap and join pickers for the settings row. */
+export const StrokeStyleControls = ({ style, onChange }: StrokeStyleControlsProps) => {
+  // The pattern is edited as text and only applied once it parses
+  const [dashText, setDashText] = useState(formatDashArray(style.customDash));
+
+  // Follow the selection, but leave text that already says the same thing alone
+  useEffect(() => {
+    const formatted = formatDashArray(style.customDash);
+    setDashText((current) => (formatDashArray(parseDashArray(current) ?? []) === formatted ? current : formatted));
+  }, [style.customDash]);
+
+  const options = <T extends string>(items: { id: T; name: string }[]) =>
+    items.map((item) => (
+      <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+    ));
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-canvas-text-muted">Stroke:</span>
+      <Select value={style.dash} onValueChange={(dash) => onChange({ dash: dash as DashStyle })}>
+        <SelectTrigger className="h-6 w-20 px-2 text-xs" title="Dash pattern">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>{options(dashStyles)}</SelectContent>
+      </Select>
+      {style.dash === "custom" && (
+        <Input
+          value={dashText}
+          onChange={(e) => {
+            setDashText(e.target.value);
+            const customDash = parseDashArray(e.target.value);
+            if (customDash) onChange({ customDash });
+          }}
+          onBlur={() => setDashText(formatDashArray(style.customDash))}
+          className="h-6 w-20 px-1 text-xs"
+          title="Dash and gap lengths in px, e.g. 12 6 2 6"
+        />
+      )}
+      <Select value={style.lineCap} onValueChange={(lineCap) => onChange({ lineCap: lineCap as LineCap })}>
+        <SelectTrigger className="h-6 w-20 px-2 text-xs" title="Line cap">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>{options(lineCaps)}</SelectContent>
+      </Select>
+      <Select value={style.lineJoin} onValueChange={(lineJoin) => onChange({ lineJoin: lineJoin as LineJoin })}>
+        <SelectTrigger className="h-6 w-20 px-2 text-xs" title="Line join">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>{options(lineJoins)}</SelectContent>
+      </Select>
+    </div>
+  );
+};
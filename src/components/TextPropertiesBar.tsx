@@ -0,0 +1,155 @@
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "./ui/select";
+import { AlignCenter, AlignJustify, AlignLeft, AlignRight, Bold, Italic, Underline } from "lucide-react";
+import { FontOption, FontSource, TextAlign, TextStyle } from "@/lib/text";
+
+const fontGroups: { source: FontSource; label: string }[] = [
+  { source: "system", label: "System" },
+  { source: "web", label: "Web fonts" },
+  { source: "local", label: "Installed" },
+];
+
+const alignments: { value: TextAlign; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { value: "left", label: "Align left", icon: AlignLeft },
+  { value: "center", label: "Align center", icon: AlignCenter },
+  { value: "right", label: "Align right", icon: AlignRight },
+  { value: "justify", label: "Justify", icon: AlignJustify },
+];
+
+interface TextPropertiesBarProps {
+  style: TextStyle;
+  fonts: FontOption[];
+  onChange: (style: Partial<TextStyle>) => void;
+  /** Asks the browser for the installed fonts; omitted once they are listed */
+  onLoadLocalFonts?: () => void;
+}
+
+/** Font and paragraph settings for the Text tool and the selected text. */
+export const TextPropertiesBar = ({ style, fonts, onChange, onLoadLocalFonts }: TextPropertiesBarProps) => {
+  // Text loaded from a file may use a font the picker doesn't list
+  const fontList = fonts.some((font) => font.family === style.fontFamily)
+    ? fonts
+    : [...fonts, { family: style.fontFamily, source: "local" as const }];
+
+  return (
+    <div className="h-10 flex items-center gap-2 px-2 border-t border-canvas-border text-xs">
+      <span className="text-canvas-text-muted">Text:</span>
+      <Select value={style.fontFamily} onValueChange={(fontFamily) => onChange({ fontFamily })}>
+        <SelectTrigger className="h-6 w-40 px-2 text-xs" title="Font">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {fontGroups.map(({ source, label }) => {
+            const group = fontList.filter((font) => font.source === source);
+            if (group.length === 0) return null;
+            return (
+              <SelectGroup key={source}>
+                <SelectLabel>{label}</SelectLabel>
+                {group.map((font) => (
+                  <SelectItem key={font.family} value={font.family} style={{ fontFamily: font.family }}>
+                    {font.family}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            );
+          })}
+        </SelectContent>
+      </Select>
+      {onLoadLocalFonts && (
+        <Button variant="ghost" size="sm" onClick={onLoadLocalFonts} className="h-6 px-2 text-xs" title="List fonts installed on this computer">
+          Local fonts…
+        </Button>
+      )}
+
+      <Input
+        type="number"
+        min={1}
+        max={999}
+        value={style.fontSize}
+        onChange={(e) => {
+          const fontSize = Number(e.target.value);
+          if (fontSize >= 1) onChange({ fontSize });
+        }}
+        className="h-6 w-14 px-1 text-xs"
+        title="Font size (px)"
+      />
+
+      <div className="w-px h-6 bg-canvas-border" />
+
+      <Button
+        variant={style.fontWeight === "bold" ? "default" : "ghost"}
+        size="sm"
+        onClick={() => onChange({ fontWeight: style.fontWeight === "bold" ? "normal" : "bold" })}
+        className="h-6 w-6 p-0"
+        title="Bold"
+      >
+        <Bold className="w-4 h-4" />
+      </Button>
+      <Button
+        variant={style.fontStyle === "italic" ? "default" : "ghost"}
+        size="sm"
+        onClick={() => onChange({ fontStyle: style.fontStyle === "italic" ? "normal" : "italic" })}
+        className="h-6 w-6 p-0"
+        title="Italic"
+      >
+        <Italic className="w-4 h-4" />
+      </Button>
+      <Button
+        variant={style.underline ? "default" : "ghost"}
+        size="sm"
+        onClick={() => onChange({ underline: !style.underline })}
+        className="h-6 w-6 p-0"
+        title="Underline"
+      >
+        <Underline className="w-4 h-4" />
+      </Button>
+
+      <div className="w-px h-6 bg-canvas-border" />
+
+      {alignments.map(({ value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          variant={style.textAlign === value ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onChange({ textAlign: value })}
+          className="h-6 w-6 p-0"
+          title={label}
+        >
+          <Icon className="w-4 h-4" />
+        </Button>
+      ))}
+
+      <div className="w-px h-6 bg-canvas-border" />
+
+      <span className="text-canvas-text-muted">Line:</span>
+      <Input
+        type="number"
+        min={0.5}
+        max={5}
+        step={0.05}
+        value={style.lineHeight}
+        onChange={(e) => {
+          const lineHeight = Number(e.target.value);
+          if (lineHeight >= 0.5 && lineHeight <= 5) onChange({ lineHeight });
+        }}
+        className="h-6 w-14 px-1 text-xs"
+        title="Line height"
+      />
+      <span className="text-canvas-text-muted">Spacing:</span>
+      <Input
+        type="number"
+        min={-500}
+        max={2000}
+        step={10}
+        value={style.charSpacing}
+        onChange={(e) => {
+          const charSpacing = Number(e.target.value);
+          if (Number.isFinite(charSpacing)) onChange({ charSpacing });
+        }}
+        className="h-6 w-16 px-1 text-xs"
+        title="Letter spacing (1/1000 em)"
+      />
+    </div>
+  );
+};
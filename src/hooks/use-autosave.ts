@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { deleteDocument, getDocument, putDocument, setLastDocumentId } from "@/lib/document-store";
+
+const AUTOSAVE_DELAY = 800;
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+interface AutosaveOptions {
+  documentId: string | null;
+  documentName: string;
+  /** Current serialized document; null while nothing has been loaded yet. */
+  state: string | null;
+  getThumbnail: () => string;
+}
+
+interface SavedDocument {
+  id: string;
+  name: string;
+  state: string;
+}
+
+/**
+ * Writes the document to IndexedDB shortly after it stops changing. States known
+ * to match what's stored (e.g. a document that was just opened) are skipped via
+ * markSaved; call flush before switching documents so pending edits aren't lost, and
+ * discard when a document is deleted so a save already under way doesn't bring it back.
+ */
+export function useAutosave({ documentId, documentName, state, getThumbnail }: AutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const savedRef = useRef<SavedDocument | null>(null);
+  const pendingRef = useRef<SavedDocument | null>(null);
+  const timerRef = useRef<number>();
+  const deletedRef = useRef(new Set<string>());
+  const thumbnailRef = useRef(getThumbnail);
+  thumbnailRef.current = getThumbnail;
+
+  const flush = useCallback(async () => {
+    window.clearTimeout(timerRef.current);
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+
+    setStatus("saving");
+    try {
+      const now = Date.now();
+      const existing = await getDocument(pending.id);
+      if (deletedRef.current.has(pending.id)) {
+        setStatus("idle");
+        return;
+      }
+      await putDocument({
+        ...pending,
+        thumbnail: thumbnailRef.current(),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      // Deleted while being written: remove it again
+      if (deletedRef.current.has(pending.id)) {
+        await deleteDocument(pending.id);
+        setStatus("idle");
+        return;
+      }
+      savedRef.current = pending;
+      setLastDocumentId(pending.id);
+      setStatus("saved");
+    } catch (error) {
+      console.error("Autosave failed", error);
+      setStatus("error");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!documentId || state === null) return;
+    const saved = savedRef.current;
+    if (saved && saved.id === documentId && saved.state === state && saved.name === documentName) return;
+
+    pendingRef.current = { id: documentId, name: documentName, state };
+    window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(flush, AUTOSAVE_DELAY);
+  }, [documentId, documentName, state, flush]);
+
+  // Don't wait for the debounce when the tab is being hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [flush]);
+
+  /** Records a state as already persisted; `stored: false` is for blank documents not written yet. */
+  const markSaved = useCallback((id: string, savedState: string, name: string, stored = true) => {
+    window.clearTimeout(timerRef.current);
+    pendingRef.current = null;
+    savedRef.current = { id, name, state: savedState };
+    setStatus(stored ? "saved" : "idle");
+  }, []);
+
+  /** Stops saving a document that was deleted, including a save already in progress. */
+  const discard = useCallback((id: string) => {
+    deletedRef.current.add(id);
+    if (pendingRef.current?.id === id) {
+      window.clearTimeout(timerRef.current);
+      pendingRef.current = null;
+    }
+  }, []);
+
+  return { status, flush, markSaved, discard };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useRef, useState } from "react";
+
+interface CanvasHistoryOptions {
+  /** Serializes the current document, or returns null when there is nothing to capture yet. */
+  capture: () => string | null;
+  /** Loads a previously captured state back into the document. */
+  apply: (state: string) => Promise<void>;
+}
+
+/**
+ * Undo/redo stack of serialized canvas states. The latest `capture`/`apply`
+ * callbacks are read through a ref so Fabric event handlers registered once can
+ * call `saveState` without going stale.
+ */
+export function useCanvasHistory(options: CanvasHistoryOptions) {
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyStep, setHistoryStep] = useState(-1);
+  const stackRef = useRef({ entries: [] as string[], step: -1 });
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const commit = useCallback((entries: string[], step: number) => {
+    stackRef.current = { entries, step };
+    setHistory(entries);
+    setHistoryStep(step);
+  }, []);
+
+  const saveState = useCallback(() => {
+    const state = optionsRef.current.capture();
+    if (state === null) return;
+
+    const { entries, step } = stackRef.current;
+    if (entries[step] === state) return;
+
+    const newHistory = entries.slice(0, step + 1);
+    newHistory.push(state);
+    commit(newHistory, newHistory.length - 1);
+  }, [commit]);
+
+  const goTo = useCallback(async (newStep: number) => {
+    const { entries } = stackRef.current;
+    if (newStep < 0 || newStep >= entries.length) return;
+    await optionsRef.current.apply(entries[newStep]);
+    commit(entries, newStep);
+  }, [commit]);
+
+  const undo = useCallback(() => goTo(stackRef.current.step - 1), [goTo]);
+  const redo = useCallback(() => goTo(stackRef.current.step + 1), [goTo]);
+
+  /** Drops the whole stack and starts over from the current document state. */
+  const resetHistory = useCallback(() => {
+    const state = optionsRef.current.capture();
+    commit(state === null ? [] : [state], state === null ? -1 : 0);
+    return state;
+  }, [commit]);
+
+  return {
+    history,
+    historyStep,
+    canUndo: historyStep > 0,
+    canRedo: historyStep < history.length - 1,
+    saveState,
+    undo,
+    redo,
+    resetHistory,
+  };
+}
@@ -0,0 +1,18 @@
+import { RefObject, useEffect, useRef } from "react";
+
+/**
+ * Listens for the DOM change event, which React's onChange hides. Range and color
+ * inputs fire it once, when a drag ends or the picker closes.
+ */
+export function useNativeChange(ref: RefObject<HTMLInputElement>, onChange: (value: string) => void) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+
+  useEffect(() => {
+    const input = ref.current;
+    if (!input) return;
+    const handleChange = () => handlerRef.current(input.value);
+    input.addEventListener("change", handleChange);
+    return () => input.removeEventListener("change", handleChange);
+  }, [ref]);
+}
@@ -0,0 +1,219 @@
+import { Control, FabricObject, Line, Point, TPointerEvent, Transform, classRegistry, util } from "fabric";
+
+export type ArrowHead = "none" | "triangle" | "open" | "circle" | "bar";
+
+export const arrowHeads: { id: ArrowHead; name: string }[] = [
+  { id: "none", name: "None" },
+  { id: "triangle", name: "Triangle" },
+  { id: "open", name: "Open" },
+  { id: "circle", name: "Circle" },
+  { id: "bar", name: "Bar" },
+];
+
+export interface ArrowHeads {
+  startHead: ArrowHead;
+  endHead: ArrowHead;
+}
+
+export const DEFAULT_ARROW_HEADS: ArrowHeads = { startHead: "none", endHead: "triangle" };
+
+/** Heads are this many stroke widths long, but never too small to see. */
+const HEAD_SCALE = 4;
+const MIN_HEAD_SIZE = 8;
+
+interface HeadShape {
+  /** SVG path data, also drawn on the canvas through Path2D */
+  d: string;
+  filled: boolean;
+  /** How far the line stops short of the tip so its end hides inside the head */
+  inset: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Outline of a head whose tip is at `tip`, pointing along `angle`. */
+const getHeadShape = (head: ArrowHead, tip: Point, angle: number, size: number): HeadShape | null => {
+  const along = new Point(Math.cos(angle), Math.sin(angle));
+  const across = new Point(-along.y, along.x);
+  const at = (back: number, side: number) => {
+    const point = tip.subtract(along.scalarMultiply(back)).add(across.scalarMultiply(side));
+    return `${round(point.x)} ${round(point.y)}`;
+  };
+  const tipAt = at(0, 0);
+
+  switch (head) {
+    case "triangle":
+      return { d: `M ${tipAt} L ${at(size, size / 2)} L ${at(size, -size / 2)} Z`, filled: true, inset: size / 2 };
+    case "open":
+      return { d: `M ${at(size, size / 2)} L ${tipAt} L ${at(size, -size / 2)}`, filled: false, inset: 0 };
+    case "circle": {
+      const r = round(size / 2);
+      return { d: `M ${at(0, r)} A ${r} ${r} 0 1 0 ${at(0, -r)} A ${r} ${r} 0 1 0 ${at(0, r)} Z`, filled: true, inset: 0 };
+    }
+    case "bar":
+      return { d: `M ${at(0, size / 2)} L ${at(0, -size / 2)}`, filled: false, inset: 0 };
+    default:
+      return null;
+  }
+};
+
+/** Line with optional heads at either end, drawn as part of the line itself. */
+export class Arrow extends Line {
+  static type = "Arrow";
+
+  static cacheProperties = [...Line.cacheProperties, "startHead", "endHead"];
+
+  declare startHead: ArrowHead;
+  declare endHead: ArrowHead;
+
+  constructor(points?: [number, number, number, number], options: ConstructorParameters<typeof Line>[1] & Partial<ArrowHeads> = {}) {
+    super(points, options);
+    this.startHead = options.startHead ?? DEFAULT_ARROW_HEADS.startHead;
+    this.endHead = options.endHead ?? DEFAULT_ARROW_HEADS.endHead;
+    this.controls = createArrowControls();
+  }
+
+  getHeadSize() {
+    return Math.max(MIN_HEAD_SIZE, this.strokeWidth * HEAD_SCALE);
+  }
+
+  /**
+   * How much wider than the stroke the heads make the arrow, in object units. Heads
+   * reach at most half their size past the line on every side.
+   */
+  getHeadPadding() {
+    return this.startHead === "none" && this.endHead === "none" ? 0 : this.getHeadSize();
+  }
+
+  /**
+   * Grows the box used for hit testing, bounds and erasing so it covers the heads. It
+   * grows around the same centre; padding the dimensions instead would shift the line.
+   */
+  calcACoords() {
+    const padding = this.getHeadPadding();
+    if (!padding) return super.calcACoords();
+    const center = this.getRelativeCenterPoint();
+    const matrix = util.multiplyTransformMatrices(
+      util.createTranslateMatrix(center.x, center.y),
+      util.createRotateMatrix({ angle: this.angle })
+    );
+    const dim = this._getTransformedDimensions({ strokeWidth: this.strokeWidth + padding });
+    const w = dim.x / 2;
+    const h = dim.y / 2;
+    return {
+      tl: new Point(-w, -h).transform(matrix),
+      tr: new Point(w, -h).transform(matrix),
+      br: new Point(w, h).transform(matrix),
+      bl: new Point(-w, h).transform(matrix),
+    };
+  }
+
+  /** Makes room for the heads in the object cache. */
+  _getCacheCanvasDimensions() {
+    const dims = super._getCacheCanvasDimensions();
+    const padX = this.getHeadPadding() * dims.zoomX;
+    const padY = this.getHeadPadding() * dims.zoomY;
+    return { ...dims, width: Math.ceil(dims.width + padX), height: Math.ceil(dims.height + padY), x: dims.x + padX, y: dims.y + padY };
+  }
+
+  /** The line between its heads and the heads themselves, in object coordinates. */
+  getShapes() {
+    const { x1, y1, x2, y2 } = this.calcLinePoints();
+    const start = new Point(x1, y1);
+    const end = new Point(x2, y2);
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const size = this.getHeadSize();
+    const startShape = getHeadShape(this.startHead, start, angle + Math.PI, size);
+    const endShape = getHeadShape(this.endHead, end, angle, size);
+    // Short arrows can't give up more than their own length
+    const length = start.distanceFrom(end);
+    const startInset = Math.min(startShape?.inset ?? 0, length / 2);
+    const endInset = Math.min(endShape?.inset ?? 0, length / 2);
+    const direction = length > 0 ? end.subtract(start).scalarDivide(length) : new Point(0, 0);
+    return {
+      lineStart: start.add(direction.scalarMultiply(startInset)),
+      lineEnd: end.subtract(direction.scalarMultiply(endInset)),
+      heads: [startShape, endShape].filter((shape): shape is HeadShape => shape !== null),
+    };
+  }
+
+  /** Both ends in canvas coordinates. */
+  getEndpoints(): [Point, Point] {
+    const { x1, y1, x2, y2 } = this.calcLinePoints();
+    const matrix = this.calcTransformMatrix();
+    return [new Point(x1, y1).transform(matrix), new Point(x2, y2).transform(matrix)];
+  }
+
+  /** Moves the ends to canvas coordinates, dropping any rotation or scaling. */
+  setEndpoints([start, end]: [Point, Point]) {
+    this.set({ angle: 0, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0, flipX: false, flipY: false });
+    this.set({ x1: start.x, y1: start.y, x2: end.x, y2: end.y });
+    this.setCoords();
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    if (!this.stroke) return;
+    const { lineStart, lineEnd, heads } = this.getShapes();
+    const color = typeof this.stroke === "string" ? this.stroke : this.stroke.toLive(ctx);
+
+    ctx.beginPath();
+    ctx.moveTo(lineStart.x, lineStart.y);
+    ctx.lineTo(lineEnd.x, lineEnd.y);
+    ctx.lineWidth = this.strokeWidth;
+    ctx.strokeStyle = color;
+    this._renderStroke(ctx);
+
+    ctx.save();
+    // Heads are always solid, even on a dashed line
+    ctx.setLineDash([]);
+    ctx.fillStyle = color;
+    heads.forEach(({ d, filled }) => {
+      const path = new Path2D(d);
+      if (filled) ctx.fill(path);
+      else ctx.stroke(path);
+    });
+    ctx.restore();
+  }
+
+  _toSVG() {
+    const { lineStart, lineEnd, heads } = this.getShapes();
+    const color = typeof this.stroke === "string" ? this.stroke : "#000000";
+    const headMarkup = heads.map(({ d, filled }) =>
+      filled
+        ? `<path d="${d}" fill="${color}" stroke="none" />\n`
+        : `<path d="${d}" fill="none" stroke-dasharray="none" />\n`
+    );
+    return [
+      "<g ",
+      "COMMON_PARTS",
+      ">\n",
+      `<line x1="${lineStart.x}" y1="${lineStart.y}" x2="${lineEnd.x}" y2="${lineEnd.y}" />\n`,
+      ...headMarkup,
+      "</g>\n",
+    ];
+  }
+}
+
+classRegistry.setClass(Arrow);
+
+export const isArrow = (obj: FabricObject | undefined | null): obj is Arrow => obj instanceof Arrow;
+
+/** A handle on each end; dragging one moves that end and the heads follow. */
+const createArrowControls = () => {
+  const createEndControl = (index: 0 | 1) =>
+    new Control({
+      actionName: "modifyArrow",
+      cursorStyle: "crosshair",
+      positionHandler: (_dim, _finalMatrix, arrow: Arrow) =>
+        arrow.getEndpoints()[index].transform(arrow.getViewportTransform()),
+      actionHandler: (_eventData: TPointerEvent, transform: Transform, x: number, y: number) => {
+        const arrow = transform.target as Arrow;
+        const ends = arrow.getEndpoints();
+        ends[index] = new Point(x, y);
+        arrow.setEndpoints(ends);
+        return true;
+      },
+    });
+
+  return { p1: createEndControl(0), p2: createEndControl(1) };
+};
@@ -0,0 +1,120 @@
+import { ActiveSelection, Canvas as FabricCanvas, FabricObject, TMat2D, util } from "fabric";
+import { ExtendedFabricObject, getDocumentObjects } from "@/lib/canvas-state";
+import { getDocumentSize } from "@/lib/document-canvas";
+import { DocumentSize, MAX_DOCUMENT_SIZE } from "@/lib/document-size";
+
+const PASTE_OFFSET = 10;
+
+export type DocumentTransform = "flipHorizontal" | "flipVertical" | "rotateRight" | "rotateLeft" | "rotate180";
+
+/** Selects every object that can currently be selected (visible, unlocked layers). */
+export const selectAll = (canvas: FabricCanvas) => {
+  const objects = getDocumentObjects(canvas).filter((obj) => obj.selectable && obj.visible);
+  canvas.discardActiveObject();
+  if (objects.length === 0) return false;
+  canvas.setActiveObject(objects.length === 1 ? objects[0] : new ActiveSelection(objects, { canvas }));
+  canvas.requestRenderAll();
+  return true;
+};
+
+export const deleteSelection = (canvas: FabricCanvas) => {
+  const objects = canvas.getActiveObjects();
+  if (objects.length === 0) return false;
+  canvas.discardActiveObject();
+  canvas.remove(...objects);
+  canvas.requestRenderAll();
+  return true;
+};
+
+/**
+ * Runs `edit` on each selected object in canvas coordinates. A multi-selection is
+ * taken apart first, since its objects are positioned relative to it, and rebuilt
+ * afterwards around their new bounds.
+ */
+export const editSelection = (canvas: FabricCanvas, edit: (obj: FabricObject) => void) => {
+  const active = canvas.getActiveObject();
+  const objects = canvas.getActiveObjects();
+  if (objects.length === 0) return false;
+  const isMultiple = active instanceof ActiveSelection;
+  if (isMultiple) canvas.discardActiveObject();
+  objects.forEach((obj) => {
+    edit(obj);
+    obj.setCoords();
+  });
+  if (isMultiple) canvas.setActiveObject(new ActiveSelection(objects, { canvas }));
+  canvas.requestRenderAll();
+  return true;
+};
+
+/** Clones the selected objects so later edits don't change what was copied. */
+export const copySelection = (canvas: FabricCanvas) =>
+  Promise.all(canvas.getActiveObjects().map((obj) => obj.clone()));
+
+/**
+ * Adds copies of the clipboard objects onto `layerId`, offset so they don't land
+ * exactly on top of the originals, and selects them.
+ */
+export const pasteObjects = async (canvas: FabricCanvas, clipboard: FabricObject[], layerId: string, pasteCount: number) => {
+  const offset = PASTE_OFFSET * pasteCount;
+  const pasted = await Promise.all(clipboard.map((obj) => obj.clone()));
+  pasted.forEach((obj) => {
+    obj.set({ left: obj.left + offset, top: obj.top + offset });
+    obj.setCoords();
+    (obj as ExtendedFabricObject).layerId = layerId;
+  });
+  canvas.discardActiveObject();
+  canvas.add(...pasted);
+  canvas.setActiveObject(pasted.length === 1 ? pasted[0] : new ActiveSelection(pasted, { canvas }));
+  canvas.requestRenderAll();
+  return pasted;
+};
+
+/**
+ * Matrix mapping a width × height document onto its flipped or rotated self,
+ * keeping the result's top-left corner at the origin.
+ */
+const documentTransformMatrix = (transform: DocumentTransform, width: number, height: number): TMat2D => {
+  switch (transform) {
+    case "flipHorizontal": return [-1, 0, 0, 1, width, 0];
+    case "flipVertical": return [1, 0, 0, -1, 0, height];
+    case "rotateRight": return [0, 1, -1, 0, height, 0];
+    case "rotateLeft": return [0, -1, 1, 0, 0, width];
+    case "rotate180": return [-1, 0, 0, -1, width, height];
+  }
+};
+
+/** Applies a matrix to every document object, as if the whole drawing were one image. */
+export const transformAllObjects = (canvas: FabricCanvas, matrix: TMat2D) => {
+  canvas.discardActiveObject();
+  getDocumentObjects(canvas).forEach((obj) => {
+    util.addTransformToObject(obj, matrix);
+    obj.setCoords();
+  });
+  canvas.requestRenderAll();
+};
+
+/** Flips or rotates the drawing; returns the page size afterwards (rotations swap it). */
+export const transformDocument = (canvas: FabricCanvas, transform: DocumentTransform): DocumentSize => {
+  const { width, height } = getDocumentSize(canvas);
+  transformAllObjects(canvas, documentTransformMatrix(transform, width, height));
+  return transform === "rotateRight" || transform === "rotateLeft" ? { width: height, height: width } : { width, height };
+};
+
+/**
+ * Scales the whole drawing about the top-left corner (Image > Resize); returns the new
+ * page size. Factors are capped so the page stays within MAX_DOCUMENT_SIZE.
+ */
+export const scaleDocument = (canvas: FabricCanvas, scaleX: number, scaleY: number): DocumentSize => {
+  const { width, height } = getDocumentSize(canvas);
+  const sx = Math.min(scaleX, MAX_DOCUMENT_SIZE / width);
+  const sy = Math.min(scaleY, MAX_DOCUMENT_SIZE / height);
+  transformAllObjects(canvas, [sx, 0, 0, sy, 0, 0]);
+  return {
+    width: Math.min(MAX_DOCUMENT_SIZE, Math.max(1, Math.round(width * sx))),
+    height: Math.min(MAX_DOCUMENT_SIZE, Math.max(1, Math.round(height * sy))),
+  };
+};
+
+/** Moves every document object, e.g. to keep content anchored when the page size changes. */
+export const offsetDocument = (canvas: FabricCanvas, dx: number, dy: number) =>
+  transformAllObjects(canvas, [1, 0, 0, 1, dx, dy]);
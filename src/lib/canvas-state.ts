@@ -0,0 +1,82 @@
+import { Canvas as FabricCanvas, FabricObject } from "fabric";
+import { Layer, normalizeLayers } from "@/lib/layers";
+import { getDocumentSize } from "@/lib/document-canvas";
+import { Guide, normalizeGuides } from "@/lib/rulers";
+import { DocumentSize, normalizeDocumentSize } from "@/lib/document-size";
+import { loadCanvasFonts } from "@/lib/text";
+
+// Extend Fabric.js object to include custom properties
+export interface ExtendedFabricObject extends FabricObject {
+  isTemp?: boolean;
+  layerId?: string;
+}
+
+// Custom properties that must survive toJSON/loadFromJSON round trips
+FabricObject.customProperties = ["layerId", "isEraser", "startHead", "endHead"];
+
+export interface CanvasSnapshot {
+  version?: string;
+  background?: string;
+  objects: Record<string, unknown>[];
+  layers?: Layer[];
+  guides?: Guide[];
+  size?: DocumentSize;
+}
+
+/** Document structure stored in snapshots next to Fabric's own JSON. */
+export interface DocumentLayout {
+  layers: Layer[];
+  guides: Guide[];
+  size: DocumentSize;
+}
+
+/**
+ * Objects that only exist while interacting with the canvas (shape previews etc.)
+ * and must never end up in history snapshots or exports.
+ */
+export const isHelperObject = (obj: FabricObject) => Boolean((obj as ExtendedFabricObject).isTemp);
+
+export const getDocumentObjects = (canvas: FabricCanvas) =>
+  (canvas.getObjects() as ExtendedFabricObject[]).filter((obj) => !isHelperObject(obj));
+
+export const serializeCanvas = (canvas: FabricCanvas, { layers, guides, size }: DocumentLayout) => {
+  const snapshot: CanvasSnapshot = {
+    ...canvas.toJSON(),
+    objects: getDocumentObjects(canvas).map((obj) => obj.toObject()),
+    layers,
+    guides,
+    size,
+  };
+  return JSON.stringify(snapshot);
+};
+
+/**
+ * Loads a snapshot written by serializeCanvas and returns the layers, guides and
+ * page size stored with it. Snapshots written before layers existed get a single
+ * default layer.
+ */
+export const restoreCanvas = async (canvas: FabricCanvas, state: string): Promise<DocumentLayout> => {
+  const snapshot = JSON.parse(state) as CanvasSnapshot;
+  await canvas.loadFromJSON(snapshot);
+  canvas.requestRenderAll();
+  // Text is shown in a fallback font until its web fonts arrive
+  void loadCanvasFonts(canvas);
+  return {
+    layers: normalizeLayers(snapshot.layers),
+    guides: normalizeGuides(snapshot.guides),
+    size: normalizeDocumentSize(snapshot.size),
+  };
+};
+
+/** Small PNG preview of the page for the document library. */
+export const renderThumbnail = (canvas: FabricCanvas, maxSize = 240) => {
+  const { width, height } = getDocumentSize(canvas);
+  const multiplier = Math.min(1, maxSize / Math.max(width, height));
+  const viewportTransform = canvas.viewportTransform;
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+  try {
+    return canvas.toDataURL({ format: "png", multiplier, left: 0, top: 0, width, height });
+  } finally {
+    canvas.viewportTransform = viewportTransform;
+  }
+};
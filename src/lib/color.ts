@@ -0,0 +1,89 @@
+import { Color } from "fabric";
+
+/** Channels 0–255, alpha 0–1. */
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** Hue 0–360, saturation and value 0–1, alpha 0–1. */
+export interface HSVA {
+  h: number;
+  s: number;
+  v: number;
+  a: number;
+}
+
+/** Hue 0–360, saturation and lightness 0–100, alpha 0–1. */
+export interface HSLA {
+  h: number;
+  s: number;
+  l: number;
+  a: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Any CSS color Fabric understands (hex, rgb(), hsl(), names); unknown strings become black. */
+export const parseColor = (value: string): RGBA => {
+  const [r, g, b, a] = new Color(value).getSource();
+  return { r, g, b, a };
+};
+
+export const rgbToHsv = ({ r, g, b, a }: RGBA): HSVA => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const delta = max - Math.min(rn, gn, bn);
+  let h = 0;
+  if (delta > 0) {
+    if (max === rn) h = ((gn - bn) / delta) % 6;
+    else if (max === gn) h = (bn - rn) / delta + 2;
+    else h = (rn - gn) / delta + 4;
+  }
+  return { h: (h * 60 + 360) % 360, s: max === 0 ? 0 : delta / max, v: max, a };
+};
+
+export const hsvToRgb = ({ h, s, v, a }: HSVA): RGBA => {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return Math.round((v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255);
+  };
+  return { r: f(5), g: f(3), b: f(1), a };
+};
+
+export const rgbToHsl = ({ r, g, b, a }: RGBA): HSLA => {
+  const { h, s, v } = rgbToHsv({ r, g, b, a });
+  const l = v * (1 - s / 2);
+  const sl = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+  return { h: Math.round(h), s: Math.round(sl * 100), l: Math.round(l * 100), a };
+};
+
+export const hslToRgb = ({ h, s, l, a }: HSLA): RGBA => {
+  const sl = clamp(s, 0, 100) / 100;
+  const ll = clamp(l, 0, 100) / 100;
+  const v = ll + sl * Math.min(ll, 1 - ll);
+  return hsvToRgb({ h: ((h % 360) + 360) % 360, s: v === 0 ? 0 : 2 * (1 - ll / v), v, a });
+};
+
+const hexByte = (value: number) => Math.round(clamp(value, 0, 255)).toString(16).padStart(2, "0");
+
+/** `#rrggbb`, with an alpha byte on the end when the color isn't opaque. */
+export const toHex = ({ r, g, b, a }: RGBA) =>
+  `#${hexByte(r)}${hexByte(g)}${hexByte(b)}${a < 1 ? hexByte(a * 255) : ""}`;
+
+/** Parses `#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa`, with or without the `#`. */
+export const parseHex = (value: string): RGBA | null => {
+  const hex = value.trim().replace(/^#/, "");
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return null;
+  const full = hex.length <= 4 ? [...hex].map((c) => c + c).join("") : hex;
+  const bytes = full.match(/../g).map((byte) => parseInt(byte, 16));
+  return { r: bytes[0], g: bytes[1], b: bytes[2], a: bytes.length > 3 ? Math.round((bytes[3] / 255) * 100) / 100 : 1 };
+};
+
+/** The string stored on objects: hex when opaque, rgba() otherwise. */
+export const formatColor = (color: RGBA) =>
+  color.a >= 1 ? toHex(color) : `rgba(${color.r}, ${color.g}, ${color.b}, ${Math.round(color.a * 100) / 100})`;
+
+export const isSameColor = (a: string, b: string) => formatColor(parseColor(a)) === formatColor(parseColor(b));
@@ -0,0 +1,54 @@
+import { Canvas as FabricCanvas, FabricObject, TPointerEvent } from "fabric";
+import { DEFAULT_DOCUMENT_SIZE, DocumentSize } from "@/lib/document-size";
+
+const PASTEBOARD_COLOR = "#e2e8f0";
+const PAGE_SHADOW = "rgba(15, 23, 42, 0.25)";
+
+/**
+ * Fabric canvas that fills the editor area and shows the document as a page on a
+ * pasteboard. Scene coordinates 0,0 to documentSize are the page; objects may sit
+ * on the pasteboard around it but only the page is exported.
+ */
+export class DocumentCanvas extends FabricCanvas {
+  documentSize: DocumentSize = DEFAULT_DOCUMENT_SIZE;
+  /** When set, only objects it accepts can be clicked, e.g. text for the Text tool. */
+  targetFilter: ((obj: FabricObject) => boolean) | null = null;
+
+  findTarget(e: TPointerEvent) {
+    const target = super.findTarget(e);
+    return target && this.targetFilter && !this.targetFilter(target) ? undefined : target;
+  }
+
+  setDocumentSize(size: DocumentSize) {
+    this.documentSize = size;
+    this.requestRenderAll();
+  }
+
+  _renderBackground(ctx: CanvasRenderingContext2D) {
+    // Exports render through toCanvasElement on their own context and only want
+    // the document background
+    if (ctx !== this.getContext()) {
+      super._renderBackground(ctx);
+      return;
+    }
+
+    const { width, height } = this.documentSize;
+    const background = typeof this.backgroundColor === "string" && this.backgroundColor ? this.backgroundColor : "#ffffff";
+    ctx.save();
+    ctx.fillStyle = PASTEBOARD_COLOR;
+    ctx.fillRect(0, 0, this.width, this.height);
+    ctx.transform(...this.viewportTransform);
+    ctx.shadowColor = PAGE_SHADOW;
+    ctx.shadowBlur = 12;
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+}
+
+/** The document's page size; plain Fabric canvases use their element size. */
+export const getDocumentSize = (canvas: FabricCanvas): DocumentSize =>
+  canvas instanceof DocumentCanvas ? canvas.documentSize : { width: canvas.getWidth(), height: canvas.getHeight() };
+
+/** Page bounds in canvas coordinates. */
+export const getPageBounds = (canvas: FabricCanvas) => ({ left: 0, top: 0, ...getDocumentSize(canvas) });
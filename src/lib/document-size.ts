@@ -0,0 +1,50 @@
+export interface DocumentSize {
+  width: number;
+  height: number;
+}
+
+export interface DocumentPreset extends DocumentSize {
+  id: string;
+  name: string;
+}
+
+/** Paper sizes are converted at the CSS reference resolution of 96 dpi. */
+export const documentPresets: DocumentPreset[] = [
+  { id: "a4", name: "A4 (210 × 297 mm)", width: 794, height: 1123 },
+  { id: "letter", name: "US Letter (8.5 × 11 in)", width: 816, height: 1056 },
+  { id: "hd", name: "1080p (1920 × 1080)", width: 1920, height: 1080 },
+  { id: "square", name: "Square social post (1080 × 1080)", width: 1080, height: 1080 },
+];
+
+export const DEFAULT_DOCUMENT_SIZE: DocumentSize = { width: 1920, height: 1080 };
+export const MAX_DOCUMENT_SIZE = 10000;
+
+export const isValidDocumentSize = ({ width, height }: DocumentSize) =>
+  Number.isFinite(width) && Number.isFinite(height) &&
+  width >= 1 && height >= 1 && width <= MAX_DOCUMENT_SIZE && height <= MAX_DOCUMENT_SIZE;
+
+/** Snapshots written before documents had a size get the default one. */
+export const normalizeDocumentSize = (size?: DocumentSize | null): DocumentSize =>
+  size && isValidDocumentSize(size) ? { width: Math.round(size.width), height: Math.round(size.height) } : DEFAULT_DOCUMENT_SIZE;
+
+export const findPreset = ({ width, height }: DocumentSize) =>
+  documentPresets.find((preset) => preset.width === width && preset.height === height);
+
+/**
+ * Where the existing content stays when the canvas size changes: 0 keeps it at
+ * the left/top edge, 0.5 centres it and 1 keeps it at the right/bottom edge.
+ */
+export interface ResizeAnchor {
+  x: 0 | 0.5 | 1;
+  y: 0 | 0.5 | 1;
+}
+
+export const resizeAnchors: ResizeAnchor[] = [0, 0.5, 1].flatMap((y) =>
+  [0, 0.5, 1].map((x) => ({ x, y }) as ResizeAnchor)
+);
+
+/** How far content has to move for a resize from `from` to `to` around `anchor`. */
+export const getAnchorOffset = (from: DocumentSize, to: DocumentSize, anchor: ResizeAnchor) => ({
+  x: Math.round((to.width - from.width) * anchor.x),
+  y: Math.round((to.height - from.height) * anchor.y),
+});
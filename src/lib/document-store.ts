@@ -0,0 +1,91 @@
+const DB_NAME = "canvas-palette";
+const DB_VERSION = 1;
+const STORE = "documents";
+const LAST_DOCUMENT_KEY = "canvas-palette:last-document";
+
+export interface StoredDocument {
+  id: string;
+  name: string;
+  /** Canvas snapshot as written by serializeCanvas */
+  state: string;
+  /** PNG data URL used by the document library */
+  thumbnail: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const createDocumentId = () =>
+  `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** All saved documents, most recently edited first. */
+export const listDocuments = async () => {
+  const documents = await run<StoredDocument[]>("readonly", (store) => store.getAll());
+  return documents.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDocument = (id: string) =>
+  run<StoredDocument | undefined>("readonly", (store) => store.get(id));
+
+export const putDocument = async (document: StoredDocument) => {
+  await run("readwrite", (store) => store.put(document));
+  return document;
+};
+
+export const deleteDocument = async (id: string) => {
+  await run("readwrite", (store) => store.delete(id));
+  if (getLastDocumentId() === id) localStorage.removeItem(LAST_DOCUMENT_KEY);
+};
+
+export const renameDocument = async (id: string, name: string) => {
+  const document = await getDocument(id);
+  if (!document) throw new Error("Document not found");
+  return putDocument({ ...document, name, updatedAt: Date.now() });
+};
+
+export const duplicateDocument = async (id: string) => {
+  const document = await getDocument(id);
+  if (!document) throw new Error("Document not found");
+  const now = Date.now();
+  return putDocument({
+    ...document,
+    id: createDocumentId(),
+    name: `${document.name} copy`,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// The document to reopen after a page reload
+export const getLastDocumentId = () => localStorage.getItem(LAST_DOCUMENT_KEY);
+export const setLastDocumentId = (id: string) => localStorage.setItem(LAST_DOCUMENT_KEY, id);
@@ -0,0 +1,136 @@
+import { Canvas as FabricCanvas, FabricObject, Group, Path, Point, util } from "fabric";
+import { getDocumentObjects } from "@/lib/canvas-state";
+
+/** Colour of the stroke preview while the eraser is being dragged. */
+export const ERASER_PREVIEW_COLOR = "rgba(128, 128, 128, 0.5)";
+
+export interface EraserGroup extends Group {
+  isEraser?: boolean;
+}
+
+const getEraser = (obj: FabricObject) => {
+  const clipPath = obj.clipPath as EraserGroup | undefined;
+  return clipPath?.isEraser ? clipPath : undefined;
+};
+
+/**
+ * Cuts an eraser stroke out of one object. Erased areas are stored as an inverted
+ * clip path in the object's own coordinate plane, so they move with the object and
+ * survive toJSON/loadFromJSON like any other property.
+ */
+const eraseObject = async (obj: FabricObject, stroke: Path) => {
+  const cut = await stroke.clone();
+  // Clip paths only use alpha, so the cut must be fully opaque
+  cut.set({ stroke: "#000000", opacity: 1, globalCompositeOperation: "source-over" });
+  util.applyTransformToObject(
+    cut,
+    util.multiplyTransformMatrices(util.invertTransform(obj.calcTransformMatrix()), stroke.calcTransformMatrix())
+  );
+
+  const eraser = getEraser(obj);
+  if (eraser) {
+    eraser.add(cut);
+  } else {
+    const group = new Group([cut]) as EraserGroup;
+    group.isEraser = true;
+    group.inverted = true;
+    obj.clipPath = group;
+  }
+  obj.set("dirty", true);
+};
+
+/**
+ * Applies a finished eraser stroke to the objects it overlaps on the given layer.
+ * Returns how many objects were erased.
+ */
+export const applyEraserStroke = async (canvas: FabricCanvas, stroke: Path, layerId: string) => {
+  const targets = getDocumentObjects(canvas).filter(
+    (obj) =>
+      obj !== stroke &&
+      obj.layerId === layerId &&
+      obj.visible &&
+      (obj.intersectsWithObject(stroke) || stroke.isContainedWithinObject(obj) || obj.isContainedWithinObject(stroke))
+  );
+  await Promise.all(targets.map((obj) => eraseObject(obj, stroke)));
+  canvas.requestRenderAll();
+  return targets.length;
+};
+
+let maskCounter = 0;
+
+/**
+ * SVG clip paths can't be inverted, so while `render` runs every erased object
+ * exports as its plain markup wrapped in a <mask> that hides the erased strokes.
+ */
+export const withSvgEraserMasks = <T>(canvas: FabricCanvas, render: () => T): T => {
+  const restore: (() => void)[] = [];
+
+  canvas.getObjects().forEach((obj) => {
+    const eraser = getEraser(obj);
+    if (!eraser) return;
+
+    const originalToSVG = obj.toSVG;
+    obj.clipPath = undefined;
+    obj.toSVG = (reviver) => {
+      const id = `ERASER_${++maskCounter}`;
+      const transform = util.matrixToSVG(obj.calcTransformMatrix());
+      return [
+        `<mask id="${id}" maskUnits="userSpaceOnUse" x="-100000" y="-100000" width="200000" height="200000">\n`,
+        `<rect x="-100000" y="-100000" width="200000" height="200000" fill="#ffffff"></rect>\n`,
+        `<g transform="${transform}">\n${eraser.toSVG()}</g>\n`,
+        `</mask>\n`,
+        `<g mask="url(#${id})">\n${originalToSVG.call(obj, reviver)}</g>\n`,
+      ].join("");
+    };
+    restore.push(() => {
+      obj.clipPath = eraser;
+      delete (obj as Partial<FabricObject>).toSVG;
+    });
+  });
+
+  try {
+    return render();
+  } finally {
+    restore.forEach((undo) => undo());
+  }
+};
+
+/**
+ * Topmost object on the layer whose painted pixels are under `viewportPoint`
+ * (canvas element coordinates), for the object eraser.
+ */
+export const findErasableObjectAt = (canvas: FabricCanvas, viewportPoint: Point, layerId: string) => {
+  const scenePoint = viewportPoint.transform(util.invertTransform(canvas.viewportTransform));
+  const candidates = getDocumentObjects(canvas).filter(
+    (obj) => obj.layerId === layerId && obj.visible && obj.evented
+  );
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const obj = candidates[i];
+    if (obj.containsPoint(scenePoint) && !canvas.isTargetTransparent(obj, viewportPoint.x, viewportPoint.y)) {
+      return obj;
+    }
+  }
+  return undefined;
+};
+
+/** Points every `step` pixels from `from` to `to`, so fast drags don't skip thin strokes. */
+export const interpolatePoints = (from: Point, to: Point, step = 2) => {
+  const distance = from.distanceFrom(to);
+  const count = Math.max(1, Math.ceil(distance / step));
+  return Array.from({ length: count }, (_, i) => from.lerp(to, (i + 1) / count));
+};
+
+/** Outlines an object on the canvas to show what the object eraser will remove. */
+export const drawEraserHighlight = (canvas: FabricCanvas, ctx: CanvasRenderingContext2D, obj: FabricObject) => {
+  const { tl, tr, br, bl } = obj.aCoords;
+  const corners = [tl, tr, br, bl].map((point) => point.transform(canvas.viewportTransform));
+  ctx.save();
+  ctx.strokeStyle = "#ef4444";
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([4, 3]);
+  ctx.beginPath();
+  corners.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+  ctx.stroke();
+  ctx.restore();
+};
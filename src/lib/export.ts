@@ -0,0 +1,192 @@
+import type { Canvas as FabricCanvas, FabricObject, TBBox, TMat2D } from "fabric";
+import { getDocumentObjects, isHelperObject } from "@/lib/canvas-state";
+import { withSvgEraserMasks } from "@/lib/eraser";
+import { getDocumentSize, getPageBounds } from "@/lib/document-canvas";
+import { getWebFontStylesheets } from "@/lib/text";
+
+export type RasterFormat = "png" | "jpeg" | "webp";
+export type ExportRegion = "canvas" | "selection" | "content";
+
+export const rasterFormats: Record<RasterFormat, { label: string; mimeType: string; extension: string; lossy: boolean }> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png", lossy: false },
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp", lossy: true },
+};
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  /** Encoder quality from 0 to 1, only used by lossy formats */
+  quality: number;
+  /** Output pixels per canvas pixel */
+  multiplier: number;
+  region: ExportRegion;
+  /** Leave the background out; ignored for JPEG, which has no alpha channel */
+  transparent: boolean;
+}
+
+export interface SvgExportOptions {
+  /** Crop the SVG to the bounds of the drawn objects instead of the whole canvas */
+  cropToContent?: boolean;
+  /** Extra space around the content when cropping, in canvas pixels */
+  padding?: number;
+}
+
+/**
+ * Runs `render` with helper objects (shape previews) and objects on hidden layers
+ * flagged as excludeFromExport, which Fabric's JSON, SVG and raster output skip.
+ */
+export const withExportableObjects = <T>(canvas: FabricCanvas, render: () => T): T => {
+  const excluded = canvas
+    .getObjects()
+    .filter((obj) => !obj.excludeFromExport && (isHelperObject(obj) || !obj.visible));
+  excluded.forEach((obj) => (obj.excludeFromExport = true));
+  try {
+    return render();
+  } finally {
+    excluded.forEach((obj) => (obj.excludeFromExport = false));
+  }
+};
+
+const unionBounds = (objects: FabricObject[]): TBBox | null => {
+  const boxes = objects.map((obj) => obj.getBoundingRect());
+  if (boxes.length === 0) return null;
+
+  const left = Math.min(...boxes.map((box) => box.left));
+  const top = Math.min(...boxes.map((box) => box.top));
+  const right = Math.max(...boxes.map((box) => box.left + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Union of the bounding boxes of all visible document objects in canvas
+ * coordinates, or null when nothing has been drawn.
+ */
+export const getContentBounds = (canvas: FabricCanvas): TBBox | null =>
+  unionBounds(getDocumentObjects(canvas).filter((obj) => obj.visible));
+
+/**
+ * The objects and canvas-space area to render for an export region. Selection
+ * exports only contain the selected objects; null means the region is empty.
+ */
+export const resolveExportRegion = (canvas: FabricCanvas, region: ExportRegion) => {
+  const objects = getDocumentObjects(canvas).filter((obj) => obj.visible);
+  if (region === "canvas") {
+    return { objects, bounds: getPageBounds(canvas) };
+  }
+
+  const selected = region === "selection" ? objects.filter((obj) => canvas.getActiveObjects().includes(obj)) : objects;
+  const bounds = unionBounds(selected);
+  if (!bounds) return null;
+  return {
+    objects: selected,
+    bounds: {
+      left: Math.floor(bounds.left),
+      top: Math.floor(bounds.top),
+      width: Math.ceil(bounds.width),
+      height: Math.ceil(bounds.height),
+    },
+  };
+};
+
+/** Renders the requested region to an offscreen canvas element at document scale. */
+export const renderRegion = (canvas: FabricCanvas, options: Pick<RasterExportOptions, "multiplier" | "region" | "transparent">) => {
+  const resolved = resolveExportRegion(canvas, options.region);
+  if (!resolved) return null;
+
+  const { objects, bounds } = resolved;
+  const included = new Set<object>(objects);
+  const viewportTransform = canvas.viewportTransform;
+  const background = canvas.backgroundColor;
+  // Ignore the on-screen zoom and pan so exports are always in document pixels
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0] as TMat2D;
+  if (options.transparent) canvas.backgroundColor = "";
+  try {
+    return canvas.toCanvasElement(options.multiplier, {
+      left: bounds.left,
+      top: bounds.top,
+      width: bounds.width,
+      height: bounds.height,
+      filter: (obj) => included.has(obj),
+    });
+  } finally {
+    canvas.viewportTransform = viewportTransform;
+    canvas.backgroundColor = background;
+  }
+};
+
+export const exportRaster = (canvas: FabricCanvas, options: RasterExportOptions) => {
+  const { mimeType, lossy } = rasterFormats[options.format];
+  const element = renderRegion(canvas, {
+    ...options,
+    transparent: options.transparent && options.format !== "jpeg",
+  });
+  if (!element) return Promise.resolve(null);
+
+  return new Promise<Blob | null>((resolve) => {
+    element.toBlob(resolve, mimeType, lossy ? options.quality : undefined);
+  });
+};
+
+export const exportSVG = (canvas: FabricCanvas, { cropToContent = false, padding = 0 }: SvgExportOptions = {}) => {
+  const bounds = cropToContent ? getContentBounds(canvas) : null;
+  // Always export in document coordinates, whatever the current zoom
+  const viewBox = bounds
+    ? {
+        x: Math.floor(bounds.left - padding),
+        y: Math.floor(bounds.top - padding),
+        width: Math.ceil(bounds.width + padding * 2),
+        height: Math.ceil(bounds.height + padding * 2),
+      }
+    : { x: 0, y: 0, ...getDocumentSize(canvas) };
+
+  // Fabric draws a plain background as a 100% rect at the origin, which misses
+  // a cropped viewBox, so the background rect is written here instead.
+  const background = canvas.backgroundColor;
+  const backgroundRect =
+    typeof background === "string" && background
+      ? `<rect x="${viewBox.x}" y="${viewBox.y}" width="${viewBox.width}" height="${viewBox.height}" fill="${background}"></rect>\n`
+      : "";
+
+  canvas.backgroundColor = typeof background === "string" ? "" : background;
+  try {
+    const svg = withExportableObjects(canvas, () =>
+      withSvgEraserMasks(canvas, () =>
+        canvas.toSVG({
+          viewBox,
+          width: `${viewBox.width}`,
+          height: `${viewBox.height}`,
+        })
+      )
+    );
+    // Web fonts are linked rather than embedded
+    const fontImports = getWebFontStylesheets(canvas).map((url) => `@import url('${url}');`);
+    const fontStyle = fontImports.length > 0 ? `<style type="text/css"><![CDATA[\n${fontImports.join("\n")}\n]]></style>\n` : "";
+    return svg.replace("</defs>\n", `${fontStyle}</defs>\n${backgroundRect}`);
+  } finally {
+    canvas.backgroundColor = background;
+  }
+};
+
+export const downloadURL = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = url;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadURL(url, fileName);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Turns a document name into something safe to use as a download file name. */
+export const toFileName = (name: string) =>
+  name.trim().replace(/[\\/:*?"<>|]+/g, "-").replace(/\s+/g, " ") || "drawing";
@@ -0,0 +1,64 @@
+import { Canvas as FabricCanvas, Point } from "fabric";
+import { RGBA, formatColor } from "@/lib/color";
+
+/** Width of the square of pixels averaged into one picked color. */
+export type SampleSize = 1 | 3 | 5;
+
+export const sampleSizes: { id: SampleSize; name: string }[] = [
+  { id: 1, name: "1×1" },
+  { id: 3, name: "3×3" },
+  { id: 5, name: "5×5" },
+];
+
+/** Width of the square of pixels the loupe magnifies; odd so one sits in the middle. */
+export const LOUPE_PIXELS = 11;
+
+/**
+ * Renders the square of on-screen pixels centred on a viewport point. Grid lines,
+ * guides and selection handles are left out, so only the drawing is sampled.
+ * Returns null when the canvas holds a cross-origin image that can't be read back.
+ */
+export const readPixels = (canvas: FabricCanvas, viewportPoint: Point, size: number): ImageData | null => {
+  const half = Math.floor(size / 2);
+  const element = canvas.toCanvasElement(1, {
+    left: Math.floor(viewportPoint.x) - half,
+    top: Math.floor(viewportPoint.y) - half,
+    width: size,
+    height: size,
+  });
+  try {
+    return element.getContext("2d").getImageData(0, 0, size, size);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Average of the `size`×`size` pixels in the middle of `pixels`. Channels are
+ * weighted by alpha so transparent pixels don't darken antialiased edges.
+ */
+export const averagePixels = (pixels: ImageData, size: SampleSize): RGBA => {
+  const start = Math.floor((pixels.width - size) / 2);
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let a = 0;
+  for (let y = start; y < start + size; y++) {
+    for (let x = start; x < start + size; x++) {
+      const i = (y * pixels.width + x) * 4;
+      const alpha = pixels.data[i + 3];
+      r += pixels.data[i] * alpha;
+      g += pixels.data[i + 1] * alpha;
+      b += pixels.data[i + 2] * alpha;
+      a += alpha;
+    }
+  }
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  return { r: Math.round(r / a), g: Math.round(g / a), b: Math.round(b / a), a: Math.round((a / (size * size * 255)) * 100) / 100 };
+};
+
+/** The color under a viewport point, as stored on objects; null if it can't be read. */
+export const sampleColor = (canvas: FabricCanvas, viewportPoint: Point, size: SampleSize) => {
+  const pixels = readPixels(canvas, viewportPoint, size);
+  return pixels ? formatColor(averagePixels(pixels, size)) : null;
+};
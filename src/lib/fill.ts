@@ -0,0 +1,170 @@
+import { Canvas as FabricCanvas, Circle, Ellipse, FabricImage, FabricObject, Path, Point, Polygon, Rect, Triangle, util } from "fabric";
+import { getDocumentObjects, isHelperObject } from "@/lib/canvas-state";
+import { getDocumentSize } from "@/lib/document-canvas";
+import { isNoPaint } from "@/lib/object-properties";
+import { RGBA } from "@/lib/color";
+
+export interface FillSettings {
+  /** How far a pixel may differ from the clicked one and still be filled, in percent */
+  tolerance: number;
+  /** Only fill the area connected to the click, instead of every matching pixel */
+  contiguous: boolean;
+}
+
+export const DEFAULT_FILL_SETTINGS: FillSettings = { tolerance: 15, contiguous: true };
+
+/** Shapes with an inside; lines, arrows and freehand strokes are open. */
+const isClosedShape = (obj: FabricObject) =>
+  obj instanceof Rect ||
+  obj instanceof Circle ||
+  obj instanceof Ellipse ||
+  obj instanceof Triangle ||
+  obj instanceof Polygon ||
+  // Imported SVG paths that already have a fill are closed
+  (obj instanceof Path && !isNoPaint(obj.fill));
+
+/**
+ * Whether an object paints the pixel at a viewport point. With `solid` its fill is
+ * made opaque for the test, so the inside of an unfilled shape counts too.
+ */
+const paintsPoint = (canvas: FabricCanvas, obj: FabricObject, viewportPoint: Point, solid: boolean) => {
+  const fill = obj.fill;
+  if (solid) obj.set({ fill: "#000000", dirty: true });
+  try {
+    return !canvas.isTargetTransparent(obj, viewportPoint.x, viewportPoint.y);
+  } finally {
+    if (solid) obj.set({ fill, dirty: true });
+  }
+};
+
+/**
+ * The closed shape on the given layer that a click at a viewport point falls inside,
+ * or null when the topmost thing painted there is something else.
+ */
+export const findShapeToFill = (canvas: FabricCanvas, viewportPoint: Point, layerId: string) => {
+  const scenePoint = viewportPoint.transform(util.invertTransform(canvas.viewportTransform));
+  for (const obj of getDocumentObjects(canvas).reverse()) {
+    if (!obj.visible || !obj.containsPoint(scenePoint)) continue;
+    if (obj.layerId === layerId && isClosedShape(obj) && paintsPoint(canvas, obj, viewportPoint, true)) return obj;
+    if (paintsPoint(canvas, obj, viewportPoint, false)) return null;
+  }
+  return null;
+};
+
+/**
+ * The page as it would be exported, one pixel per canvas unit. Returns null when
+ * the canvas holds a cross-origin image that can't be read back.
+ */
+const renderPagePixels = (canvas: FabricCanvas) => {
+  const { width, height } = getDocumentSize(canvas);
+  const viewportTransform = canvas.viewportTransform;
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+  try {
+    const element = canvas.toCanvasElement(1, {
+      left: 0,
+      top: 0,
+      width,
+      height,
+      filter: (obj) => !isHelperObject(obj as FabricObject),
+    });
+    return element.getContext("2d").getImageData(0, 0, width, height);
+  } catch {
+    return null;
+  } finally {
+    canvas.viewportTransform = viewportTransform;
+  }
+};
+
+/** Marks the pixels that match the one at x, y closely enough; 1 in the mask means filled. */
+export const floodFillMask = (pixels: ImageData, x: number, y: number, { tolerance, contiguous }: FillSettings) => {
+  const { width, height, data } = pixels;
+  const mask = new Uint8Array(width * height);
+  const start = (y * width + x) * 4;
+  const target = data.slice(start, start + 4);
+  const limit = (tolerance / 100) * 255;
+  const matches = (index: number) => {
+    const i = index * 4;
+    return (
+      Math.abs(data[i] - target[0]) <= limit &&
+      Math.abs(data[i + 1] - target[1]) <= limit &&
+      Math.abs(data[i + 2] - target[2]) <= limit &&
+      Math.abs(data[i + 3] - target[3]) <= limit
+    );
+  };
+
+  if (!contiguous) {
+    for (let index = 0; index < mask.length; index++) if (matches(index)) mask[index] = 1;
+    return mask;
+  }
+
+  const stack: number[] = [];
+  const visit = (index: number) => {
+    if (mask[index] || !matches(index)) return;
+    mask[index] = 1;
+    stack.push(index);
+  };
+  visit(y * width + x);
+  while (stack.length > 0) {
+    const index = stack.pop();
+    const px = index % width;
+    if (px > 0) visit(index - 1);
+    if (px < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < (height - 1) * width) visit(index + width);
+  }
+  return mask;
+};
+
+/** Paints the masked pixels in one color, cropped to the area they cover. */
+const createMaskImage = async (mask: Uint8Array, width: number, height: number, color: RGBA) => {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return null;
+
+  const element = document.createElement("canvas");
+  element.width = maxX - minX + 1;
+  element.height = maxY - minY + 1;
+  const ctx = element.getContext("2d");
+  const output = ctx.createImageData(element.width, element.height);
+  const alpha = Math.round(color.a * 255);
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!mask[y * width + x]) continue;
+      const i = ((y - minY) * element.width + (x - minX)) * 4;
+      output.data.set([color.r, color.g, color.b, alpha], i);
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+
+  // Stored as a data URL so the fill is embedded in snapshots and project files
+  const image = await FabricImage.fromURL(element.toDataURL());
+  image.set({ left: minX, top: minY });
+  image.setCoords();
+  return image;
+};
+
+/**
+ * Flood fills the rendered page from a point in canvas coordinates and returns the
+ * filled area as a new image, or null when the point is off the page or nothing
+ * could be filled.
+ */
+export const floodFill = async (canvas: FabricCanvas, scenePoint: Point, color: RGBA, settings: FillSettings) => {
+  const { width, height } = getDocumentSize(canvas);
+  const x = Math.floor(scenePoint.x);
+  const y = Math.floor(scenePoint.y);
+  if (x < 0 || y < 0 || x >= width || y >= height) return null;
+  const pixels = renderPagePixels(canvas);
+  if (!pixels) return null;
+  return createMaskImage(floodFillMask(pixels, x, y, settings), width, height, color);
+};
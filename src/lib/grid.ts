@@ -0,0 +1,104 @@
+import { Canvas as FabricCanvas, FabricObject, Point, Transform } from "fabric";
+
+export interface GridSettings {
+  /** Distance between major grid lines, in canvas pixels */
+  spacing: number;
+  /** Minor cells per major cell; snapping uses the minor step */
+  subdivisions: number;
+  snap: boolean;
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = { spacing: 50, subdivisions: 5, snap: false };
+
+const GRID_MAJOR_COLOR = "rgba(100, 116, 139, 0.35)";
+const GRID_MINOR_COLOR = "rgba(100, 116, 139, 0.15)";
+/** Lines closer together than this on screen are skipped so the grid never turns solid. */
+const MIN_LINE_GAP = 6;
+
+export const getSnapStep = ({ spacing, subdivisions }: GridSettings) => spacing / Math.max(1, subdivisions);
+
+export const snapToGrid = (value: number, step: number) => Math.round(value / step) * step;
+
+export const snapPoint = (point: Point, step: number) =>
+  new Point(snapToGrid(point.x, step), snapToGrid(point.y, step));
+
+/**
+ * Draws the grid over the visible part of the canvas. Call it from `after:render`;
+ * it is only painted on screen, so snapshots and exports never contain it.
+ */
+export const drawGrid = (canvas: FabricCanvas, ctx: CanvasRenderingContext2D, settings: GridSettings) => {
+  // toCanvasElement renders exports through the same events on another context
+  if (ctx !== canvas.getContext()) return;
+
+  const zoom = canvas.getZoom();
+  const vpt = canvas.viewportTransform;
+  const { tl, br } = canvas.calcViewportBoundaries();
+
+  let major = settings.spacing;
+  while (major * zoom < MIN_LINE_GAP) major *= 2;
+  const minor = getSnapStep(settings);
+  const drawMinor = settings.subdivisions > 1 && minor * zoom >= MIN_LINE_GAP && major === settings.spacing;
+
+  const strokeLines = (step: number, color: string, skip?: number) => {
+    ctx.beginPath();
+    for (let x = Math.floor(tl.x / step) * step; x <= br.x; x += step) {
+      if (skip && Math.abs(x / skip - Math.round(x / skip)) < 1e-6) continue;
+      const screenX = Math.round(x * zoom + vpt[4]) + 0.5;
+      ctx.moveTo(screenX, 0);
+      ctx.lineTo(screenX, canvas.getHeight());
+    }
+    for (let y = Math.floor(tl.y / step) * step; y <= br.y; y += step) {
+      if (skip && Math.abs(y / skip - Math.round(y / skip)) < 1e-6) continue;
+      const screenY = Math.round(y * zoom + vpt[5]) + 0.5;
+      ctx.moveTo(0, screenY);
+      ctx.lineTo(canvas.getWidth(), screenY);
+    }
+    ctx.strokeStyle = color;
+    ctx.stroke();
+  };
+
+  ctx.save();
+  ctx.lineWidth = 1;
+  if (drawMinor) strokeLines(minor, GRID_MINOR_COLOR, major);
+  strokeLines(major, GRID_MAJOR_COLOR);
+  ctx.restore();
+};
+
+/** Moves an object so the top-left corner of its bounding box sits on the grid. */
+export const snapObjectPosition = (obj: FabricObject, step: number) => {
+  const { left, top } = obj.getBoundingRect();
+  obj.set({
+    left: obj.left + snapToGrid(left, step) - left,
+    top: obj.top + snapToGrid(top, step) - top,
+  });
+  obj.setCoords();
+};
+
+/** Where an edge being dragged along `axis` should land instead of `value`. */
+export type EdgeSnapper = (value: number, axis: "x" | "y") => number;
+
+/**
+ * Adjusts an object being resized so the dragged edges land where `snap` says while
+ * the opposite edges stay put. Rotated objects and centred scaling are left alone.
+ */
+export const snapObjectScale = (obj: FabricObject, transform: Transform, snap: EdgeSnapper, proportional: boolean) => {
+  const { corner, originX, originY } = transform;
+  if (obj.angle % 360 !== 0 || originX === "center" || originY === "center") return;
+
+  const box = obj.getBoundingRect();
+  const edgeScale = (start: number, size: number, movesStart: boolean, axis: "x" | "y") => {
+    const end = start + size;
+    const snapped = movesStart ? end - snap(start, axis) : snap(end, axis) - start;
+    return Math.max(1, snapped) / size;
+  };
+
+  let factorX = corner.includes("l") || corner.includes("r") ? edgeScale(box.left, box.width, corner.includes("l"), "x") : 1;
+  let factorY = corner.includes("t") || corner.includes("b") ? edgeScale(box.top, box.height, corner.includes("t"), "y") : 1;
+  // Keep the aspect ratio, following whichever edge actually snapped
+  if (proportional) factorX = factorY = factorX !== 1 ? factorX : factorY;
+
+  const anchor = obj.translateToOriginPoint(obj.getRelativeCenterPoint(), originX, originY);
+  obj.set({ scaleX: obj.scaleX * factorX, scaleY: obj.scaleY * factorY });
+  obj.setPositionByOrigin(anchor, originX, originY);
+  obj.setCoords();
+};
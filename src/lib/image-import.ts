@@ -0,0 +1,34 @@
+import { Canvas as FabricCanvas, FabricImage, FabricObject, Point } from "fabric";
+
+export const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+export const isSupportedImage = (file: File) => SUPPORTED_IMAGE_TYPES.includes(file.type);
+
+export const readFileAsDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Scales an object down (never up) so it fits inside the visible part of the
+ * canvas and centres it on `center`, or on the viewport when no point is given.
+ */
+export const fitToViewport = (canvas: FabricCanvas, obj: FabricObject, center?: Point, margin = 0.9) => {
+  const { tl, br } = canvas.calcViewportBoundaries();
+  const scale = Math.min(1, ((br.x - tl.x) * margin) / obj.width, ((br.y - tl.y) * margin) / obj.height);
+  obj.scale(scale);
+  obj.setPositionByOrigin(center ?? canvas.getVpCenter(), "center", "center");
+  obj.setCoords();
+};
+
+/**
+ * Loads an image file as a Fabric image. The source is kept as a data URL so the
+ * image is embedded in history snapshots, autosaves and project files.
+ */
+export const createImageFromFile = async (file: File) => {
+  const dataURL = await readFileAsDataURL(file);
+  return FabricImage.fromURL(dataURL);
+};
@@ -0,0 +1,99 @@
+import { FabricObject, Line, Path, Point, Rect } from "fabric";
+import { isTextObject } from "@/lib/text";
+import { applyStrokeWidth } from "@/lib/stroke-style";
+
+/** What the inspector shows and edits, in canvas units. */
+export interface ObjectProperties {
+  left: number;
+  top: number;
+  /** Size of the shape itself, without its stroke */
+  width: number;
+  height: number;
+  /** Degrees */
+  angle: number;
+  skewX: number;
+  skewY: number;
+  cornerRadius: number;
+  /** Empty when there is none */
+  stroke: string;
+  strokeWidth: number;
+  /** Empty when there is none */
+  fill: string;
+  /** Percent */
+  opacity: number;
+}
+
+export type PropertyName = keyof ObjectProperties;
+
+/** Shown when the selected objects disagree on a value. */
+export const MIXED = "mixed";
+
+/** A value per property, MIXED, or missing when it doesn't apply to every selected object. */
+export type SelectionProperties = { [K in PropertyName]?: ObjectProperties[K] | typeof MIXED };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const isNoPaint = (paint: unknown) => !paint || paint === "transparent";
+
+/** Lines and freehand strokes are open shapes, so a fill means nothing for them. */
+const canFill = (obj: FabricObject) => !(obj instanceof Line) && !(obj instanceof Path && isNoPaint(obj.fill));
+
+export const getObjectProperties = (obj: FabricObject): Partial<ObjectProperties> => {
+  // In a multi-selection objects are stored relative to it
+  const position = obj.getXY();
+  const properties: Partial<ObjectProperties> = {
+    left: round(position.x),
+    top: round(position.y),
+    width: round(obj.width * obj.scaleX),
+    height: round(obj.height * obj.scaleY),
+    angle: round(obj.angle),
+    skewX: round(obj.skewX),
+    skewY: round(obj.skewY),
+    strokeWidth: round(obj.strokeWidth),
+    opacity: Math.round(obj.opacity * 100),
+  };
+  // Gradients and patterns aren't editable here
+  if (isNoPaint(obj.stroke) || typeof obj.stroke === "string") {
+    properties.stroke = isNoPaint(obj.stroke) ? "" : (obj.stroke as string);
+  }
+  if (canFill(obj) && (isNoPaint(obj.fill) || typeof obj.fill === "string")) {
+    properties.fill = isNoPaint(obj.fill) ? "" : (obj.fill as string);
+  }
+  if (obj instanceof Rect) properties.cornerRadius = round(obj.rx);
+  return properties;
+};
+
+export const getSelectionProperties = (objects: FabricObject[]): SelectionProperties => {
+  if (objects.length === 0) return {};
+  const each = objects.map(getObjectProperties);
+  const result: Record<string, unknown> = {};
+  (Object.keys(each[0]) as PropertyName[]).forEach((name) => {
+    if (!each.every((properties) => name in properties)) return;
+    const values = new Set(each.map((properties) => properties[name]));
+    result[name] = values.size === 1 ? each[0][name] : MIXED;
+  });
+  return result as SelectionProperties;
+};
+
+/** Sets properties on an object positioned in canvas coordinates. */
+export const setObjectProperties = (obj: FabricObject, changes: Partial<ObjectProperties>) => {
+  const { left, top, width, height, angle, cornerRadius, stroke, strokeWidth, fill, opacity, ...rest } = changes;
+
+  if (angle !== undefined) obj.rotate(angle);
+  if (left !== undefined || top !== undefined) {
+    const position = obj.getXY();
+    obj.setXY(new Point(left ?? position.x, top ?? position.y));
+  }
+  // Sizes scale the object, the same as dragging its handles
+  if (width !== undefined && obj.width > 0) obj.set("scaleX", Math.max(width, 1) / obj.width);
+  if (height !== undefined && obj.height > 0) obj.set("scaleY", Math.max(height, 1) / obj.height);
+  if (cornerRadius !== undefined && obj instanceof Rect) obj.set({ rx: cornerRadius, ry: cornerRadius });
+  if (stroke !== undefined) obj.set("stroke", stroke || null);
+  if (strokeWidth !== undefined) applyStrokeWidth(obj, strokeWidth);
+  if (fill !== undefined && canFill(obj)) {
+    // Text has no outline to fall back on, so it keeps its color
+    if (fill || !isTextObject(obj)) obj.set("fill", fill || "transparent");
+  }
+  if (opacity !== undefined) obj.set("opacity", opacity / 100);
+  obj.set(rest);
+};
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import type { CanvasSnapshot } from "@/lib/canvas-state";
+import type { Layer } from "@/lib/layers";
+import type { Guide } from "@/lib/rulers";
+
+export const PROJECT_FILE_EXTENSION = ".cpp.json";
+export const PROJECT_FORMAT = "canvas-palette-project";
+/** Bump when the layout of project files changes in a way older builds can't read. */
+export const PROJECT_FORMAT_VERSION = 1;
+
+const layerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  visible: z.boolean(),
+  locked: z.boolean(),
+});
+
+const guideSchema = z.object({
+  id: z.string().min(1),
+  axis: z.enum(["x", "y"]),
+  position: z.number(),
+});
+
+const documentSchema = z.object({
+  name: z.string(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  background: z.string(),
+  palette: z.array(z.string()),
+  layers: z.array(layerSchema).min(1),
+  // Added after format 1 shipped; older files simply have no guides
+  guides: z.array(guideSchema).optional(),
+});
+
+const projectSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  formatVersion: z.number().int().positive(),
+  appVersion: z.string(),
+  savedAt: z.string(),
+  document: documentSchema,
+  // Fabric's own JSON; individual objects are validated by Fabric when loading
+  canvas: z
+    .object({
+      objects: z.array(z.record(z.unknown())),
+    })
+    .passthrough(),
+});
+
+export type ProjectDocument = z.infer<typeof documentSchema>;
+export type ProjectFile = z.infer<typeof projectSchema>;
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+/** Wraps a serialized canvas snapshot (see serializeCanvas) into a project file. */
+export const createProjectFile = (
+  state: string,
+  document: Omit<ProjectDocument, "layers" | "guides" | "width" | "height">
+): string => {
+  const { layers, guides, size, ...canvas } = JSON.parse(state) as CanvasSnapshot;
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    formatVersion: PROJECT_FORMAT_VERSION,
+    appVersion: __APP_VERSION__,
+    savedAt: new Date().toISOString(),
+    document: {
+      ...document,
+      width: size.width,
+      height: size.height,
+      layers: layers as Layer[],
+      guides: (guides ?? []) as Guide[],
+    },
+    canvas,
+  };
+  return JSON.stringify(project, null, 2);
+};
+
+/**
+ * Validates a project file and returns its document metadata together with a
+ * canvas snapshot that restoreCanvas can load. Throws ProjectFileError with a
+ * message suitable for showing to the user.
+ */
+export const parseProjectFile = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("This file is not a valid project file (it isn't JSON).");
+  }
+
+  const header = z.object({ format: z.string(), formatVersion: z.number() }).safeParse(data);
+  if (!header.success || header.data.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("This file is not a Canvas Palette project.");
+  }
+  if (header.data.formatVersion > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFileError(
+      `This project was saved by a newer version of the app (format ${header.data.formatVersion}). Please update to open it.`
+    );
+  }
+
+  const result = projectSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join(".") : "file";
+    throw new ProjectFileError(`This project file is damaged (${path}: ${issue.message}).`);
+  }
+
+  const { document, canvas } = result.data;
+  const snapshot = {
+    ...canvas,
+    layers: document.layers,
+    guides: document.guides,
+    size: { width: document.width, height: document.height },
+  } as CanvasSnapshot;
+  return { document, state: JSON.stringify(snapshot) };
+};
@@ -0,0 +1,94 @@
+export type RulerUnit = "px" | "mm" | "in";
+
+export const rulerUnits: { id: RulerUnit; label: string }[] = [
+  { id: "px", label: "Pixels" },
+  { id: "mm", label: "Millimetres" },
+  { id: "in", label: "Inches" },
+];
+
+/** Canvas pixels per unit, at the CSS reference resolution of 96 dpi. */
+export const UNIT_SIZES: Record<RulerUnit, number> = { px: 1, mm: 96 / 25.4, in: 96 };
+
+export const RULER_SIZE = 20;
+
+/** A guide line dragged out of a ruler; `position` is in canvas pixels. */
+export interface Guide {
+  id: string;
+  /** "x" guides are vertical lines at x = position, "y" guides horizontal */
+  axis: "x" | "y";
+  position: number;
+}
+
+export const createGuideId = () =>
+  `guide-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const normalizeGuides = (guides?: Guide[] | null): Guide[] => (Array.isArray(guides) ? guides : []);
+
+const NICE_STEPS = [1, 2, 5];
+/** Labelled ticks are at least this far apart on screen. */
+const MIN_LABEL_GAP = 50;
+
+/** Smallest 1/2/5 × 10ⁿ step (in units) whose labels don't crowd each other. */
+const chooseStep = (screenPerUnit: number) => {
+  for (let magnitude = 0.01; ; magnitude *= 10) {
+    const step = NICE_STEPS.map((base) => base * magnitude).find((value) => value * screenPerUnit >= MIN_LABEL_GAP);
+    if (step) return step;
+  }
+};
+
+const formatLabel = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Draws one ruler. `offset` is the screen position of canvas coordinate 0 along
+ * the ruler and `zoom` the number of screen pixels per canvas pixel.
+ */
+export const drawRuler = (
+  ctx: CanvasRenderingContext2D,
+  orientation: "horizontal" | "vertical",
+  length: number,
+  offset: number,
+  zoom: number,
+  unit: RulerUnit
+) => {
+  const screenPerUnit = UNIT_SIZES[unit] * zoom;
+  const step = chooseStep(screenPerUnit);
+  const minorStep = step / 10;
+  const horizontal = orientation === "horizontal";
+
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.fillStyle = "#f8fafc";
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.strokeStyle = "#94a3b8";
+  ctx.fillStyle = "#475569";
+  ctx.font = "9px sans-serif";
+  ctx.lineWidth = 1;
+
+  const first = Math.floor(-offset / screenPerUnit / minorStep) * minorStep;
+  const last = (length - offset) / screenPerUnit;
+
+  ctx.beginPath();
+  for (let index = 0, value = first; value <= last; index++, value = first + index * minorStep) {
+    const position = Math.round(offset + value * screenPerUnit) + 0.5;
+    const ticks = Math.round(value / minorStep);
+    const major = ticks % 10 === 0;
+    const size = major ? RULER_SIZE : ticks % 5 === 0 ? RULER_SIZE / 2 : RULER_SIZE / 4;
+
+    if (horizontal) {
+      ctx.moveTo(position, RULER_SIZE);
+      ctx.lineTo(position, RULER_SIZE - size);
+      if (major) ctx.fillText(formatLabel(value), position + 2, 9);
+    } else {
+      ctx.moveTo(RULER_SIZE, position);
+      ctx.lineTo(RULER_SIZE - size, position);
+      if (major) {
+        ctx.save();
+        ctx.translate(9, position + 2);
+        ctx.rotate(-Math.PI / 2);
+        ctx.textAlign = "right";
+        ctx.fillText(formatLabel(value), 0, 0);
+        ctx.restore();
+      }
+    }
+  }
+  ctx.stroke();
+};
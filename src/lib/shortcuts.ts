@@ -0,0 +1,69 @@
+export interface KeyBinding {
+  /** KeyboardEvent.key, lower case */
+  key: string;
+  /** Ctrl on Windows/Linux, Cmd on macOS */
+  mod?: boolean;
+  shift?: boolean;
+  alt?: boolean;
+}
+
+/**
+ * Keyboard bindings for the menu commands. The first binding of each command is
+ * the one shown in menus.
+ */
+export const commandShortcuts = {
+  newDocument: [{ key: "n", mod: true, alt: true }],
+  openLibrary: [{ key: "o", mod: true }],
+  openProject: [{ key: "o", mod: true, shift: true }],
+  importFile: [{ key: "i", mod: true }],
+  saveImage: [{ key: "s", mod: true }],
+  saveProject: [{ key: "s", mod: true, shift: true }],
+  exportImage: [{ key: "e", mod: true, shift: true }],
+  undo: [{ key: "z", mod: true }],
+  redo: [{ key: "y", mod: true }, { key: "z", mod: true, shift: true }],
+  cut: [{ key: "x", mod: true }],
+  copy: [{ key: "c", mod: true }],
+  paste: [{ key: "v", mod: true }],
+  deleteSelection: [{ key: "delete" }, { key: "backspace" }],
+  selectAll: [{ key: "a", mod: true }],
+  zoomIn: [{ key: "=", mod: true }, { key: "+", mod: true, shift: true }],
+  zoomOut: [{ key: "-", mod: true }],
+  zoomReset: [{ key: "0", mod: true }],
+  toggleGrid: [{ key: "'", mod: true }],
+  // Ctrl+R is the browser's reload
+  toggleRulers: [{ key: "r", mod: true, alt: true }],
+} satisfies Record<string, KeyBinding[]>;
+
+export type CommandId = keyof typeof commandShortcuts;
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const keyLabels: Record<string, string> = {
+  delete: "Del",
+  backspace: "Backspace",
+  "=": "+",
+  " ": "Space",
+};
+
+export const formatKeyBinding = ({ key, mod, shift, alt }: KeyBinding) =>
+  [
+    mod && (isMac ? "⌘" : "Ctrl"),
+    alt && (isMac ? "⌥" : "Alt"),
+    shift && (isMac ? "⇧" : "Shift"),
+    keyLabels[key] ?? key.toUpperCase(),
+  ]
+    .filter(Boolean)
+    .join(isMac ? "" : "+");
+
+export const formatShortcut = (command: CommandId) => formatKeyBinding(commandShortcuts[command][0]);
+
+export const matchesKeyBinding = (e: KeyboardEvent, { key, mod = false, shift = false, alt = false }: KeyBinding) =>
+  e.key.toLowerCase() === key &&
+  (e.ctrlKey || e.metaKey) === mod &&
+  e.shiftKey === shift &&
+  e.altKey === alt;
+
+export const findCommand = (e: KeyboardEvent) =>
+  (Object.keys(commandShortcuts) as CommandId[]).find((command) =>
+    commandShortcuts[command].some((binding) => matchesKeyBinding(e, binding))
+  );
@@ -0,0 +1,208 @@
+import { ActiveSelection, Canvas as FabricCanvas, FabricObject, Point, TBBox } from "fabric";
+import { getDocumentObjects } from "@/lib/canvas-state";
+import { getPageBounds } from "@/lib/document-canvas";
+import type { EdgeSnapper } from "@/lib/grid";
+import type { Guide } from "@/lib/rulers";
+
+/** How close, in screen pixels, an edge has to get before it snaps. */
+const SNAP_DISTANCE = 6;
+const GUIDE_COLOR = "#ec4899";
+
+type Axis = "x" | "y";
+
+/** An alignment line in scene coordinates, spanning the boxes that share it. */
+export interface SmartGuide {
+  axis: Axis;
+  position: number;
+  start: number;
+  end: number;
+}
+
+/** Gap between the moved object and its nearest neighbour on one side. */
+export interface DistanceLabel {
+  from: Point;
+  to: Point;
+  distance: number;
+}
+
+export interface SmartGuideState {
+  guides: SmartGuide[];
+  distances: DistanceLabel[];
+}
+
+export interface SnapLine {
+  axis: Axis;
+  value: number;
+  /** What the line belongs to; ruler guides have none as they are drawn already */
+  box?: TBBox;
+}
+
+export const NO_SMART_GUIDES: SmartGuideState = { guides: [], distances: [] };
+
+const linesOf = (box: TBBox, axis: Axis) =>
+  axis === "x"
+    ? [box.left, box.left + box.width / 2, box.left + box.width]
+    : [box.top, box.top + box.height / 2, box.top + box.height];
+
+/**
+ * Lines the target can snap to: ruler guides, and with `objects` the edges and
+ * centres of the other visible objects plus the page centre lines.
+ */
+export const collectSnapLines = (
+  canvas: FabricCanvas,
+  target: FabricObject,
+  { objects = true, guides = [] }: { objects?: boolean; guides?: Guide[] } = {}
+) => {
+  const lines: SnapLine[] = guides.map(({ axis, position }) => ({ axis, value: position }));
+  if (!objects) return { lines, boxes: [] };
+
+  const moving = new Set<FabricObject>(target instanceof ActiveSelection ? target.getObjects() : [target]);
+  const boxes = getDocumentObjects(canvas)
+    .filter((obj) => obj.visible && !moving.has(obj))
+    .map((obj) => obj.getBoundingRect());
+
+  const page = getPageBounds(canvas);
+  lines.push({ axis: "x", value: page.width / 2, box: page }, { axis: "y", value: page.height / 2, box: page });
+  boxes.forEach((box) => {
+    linesOf(box, "x").forEach((value) => lines.push({ axis: "x", value, box }));
+    linesOf(box, "y").forEach((value) => lines.push({ axis: "y", value, box }));
+  });
+  return { lines, boxes };
+};
+
+/** Smallest offset that brings one of `values` onto a snap line, if one is close enough. */
+const findOffset = (values: number[], lines: SnapLine[], axis: Axis, threshold: number) => {
+  let best: number | undefined;
+  lines.forEach((line) => {
+    if (line.axis !== axis) return;
+    values.forEach((value) => {
+      const offset = line.value - value;
+      if (Math.abs(offset) <= threshold && (best === undefined || Math.abs(offset) < Math.abs(best))) best = offset;
+    });
+  });
+  return best ?? 0;
+};
+
+/** Edge snapper for resizing: moves a dragged edge onto the nearest snap line. */
+export const createEdgeSnapper = (canvas: FabricCanvas, lines: SnapLine[]): EdgeSnapper => {
+  const threshold = SNAP_DISTANCE / canvas.getZoom();
+  return (value, axis) => value + findOffset([value], lines, axis, threshold);
+};
+
+/** Moves the target so its edges or centre line up with nearby snap lines. */
+export const snapObjectToGuides = (canvas: FabricCanvas, target: FabricObject, lines: SnapLine[]) => {
+  const threshold = SNAP_DISTANCE / canvas.getZoom();
+  const box = target.getBoundingRect();
+  const dx = findOffset(linesOf(box, "x"), lines, "x", threshold);
+  const dy = findOffset(linesOf(box, "y"), lines, "y", threshold);
+  if (!dx && !dy) return;
+  target.set({ left: target.left + dx, top: target.top + dy });
+  target.setCoords();
+};
+
+/** Guides for every snap line the box currently sits on. */
+const findGuides = (box: TBBox, lines: SnapLine[]) => {
+  const guides: SmartGuide[] = [];
+  lines.forEach((line) => {
+    if (!line.box || !linesOf(box, line.axis).some((value) => Math.abs(value - line.value) < 0.5)) return;
+    const [boxStart, boxSize, lineStart, lineSize] =
+      line.axis === "x"
+        ? [box.top, box.height, line.box.top, line.box.height]
+        : [box.left, box.width, line.box.left, line.box.width];
+    guides.push({
+      axis: line.axis,
+      position: line.value,
+      start: Math.min(boxStart, lineStart),
+      end: Math.max(boxStart + boxSize, lineStart + lineSize),
+    });
+  });
+  return guides;
+};
+
+/** Distances to the closest neighbour on each side that overlaps the box. */
+const findDistances = (box: TBBox, boxes: TBBox[]) => {
+  const right = box.left + box.width;
+  const bottom = box.top + box.height;
+  const nearest: Record<"left" | "right" | "top" | "bottom", DistanceLabel | undefined> = {
+    left: undefined,
+    right: undefined,
+    top: undefined,
+    bottom: undefined,
+  };
+  const consider = (side: keyof typeof nearest, label: DistanceLabel) => {
+    if (label.distance > 0 && (!nearest[side] || label.distance < nearest[side].distance)) nearest[side] = label;
+  };
+
+  boxes.forEach((other) => {
+    const otherRight = other.left + other.width;
+    const otherBottom = other.top + other.height;
+    const overlapTop = Math.max(box.top, other.top);
+    const overlapBottom = Math.min(bottom, otherBottom);
+    const overlapLeft = Math.max(box.left, other.left);
+    const overlapRight = Math.min(right, otherRight);
+
+    if (overlapTop < overlapBottom) {
+      const y = (overlapTop + overlapBottom) / 2;
+      consider("left", { from: new Point(otherRight, y), to: new Point(box.left, y), distance: box.left - otherRight });
+      consider("right", { from: new Point(right, y), to: new Point(other.left, y), distance: other.left - right });
+    }
+    if (overlapLeft < overlapRight) {
+      const x = (overlapLeft + overlapRight) / 2;
+      consider("top", { from: new Point(x, otherBottom), to: new Point(x, box.top), distance: box.top - otherBottom });
+      consider("bottom", { from: new Point(x, bottom), to: new Point(x, other.top), distance: other.top - bottom });
+    }
+  });
+
+  return Object.values(nearest).filter(Boolean);
+};
+
+/** Guides and neighbour distances to show for the target in its current position. */
+export const getSmartGuides = (target: FabricObject, lines: SnapLine[], boxes: TBBox[]): SmartGuideState => {
+  const box = target.getBoundingRect();
+  return { guides: findGuides(box, lines), distances: findDistances(box, boxes) };
+};
+
+/** Paints guides and distance labels on screen; exports render on another context and skip this. */
+export const drawSmartGuides = (canvas: FabricCanvas, ctx: CanvasRenderingContext2D, state: SmartGuideState) => {
+  if (ctx !== canvas.getContext()) return;
+  const vpt = canvas.viewportTransform;
+  const toScreen = (x: number, y: number) => new Point(x, y).transform(vpt);
+
+  ctx.save();
+  ctx.strokeStyle = GUIDE_COLOR;
+  ctx.fillStyle = GUIDE_COLOR;
+  ctx.lineWidth = 1;
+
+  state.guides.forEach(({ axis, position, start, end }) => {
+    const from = axis === "x" ? toScreen(position, start) : toScreen(start, position);
+    const to = axis === "x" ? toScreen(position, end) : toScreen(end, position);
+    ctx.beginPath();
+    ctx.moveTo(Math.round(from.x) + 0.5, Math.round(from.y) + 0.5);
+    ctx.lineTo(Math.round(to.x) + 0.5, Math.round(to.y) + 0.5);
+    ctx.stroke();
+  });
+
+  ctx.font = "11px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  state.distances.forEach(({ from, to, distance }) => {
+    const start = from.transform(vpt);
+    const end = to.transform(vpt);
+    ctx.setLineDash([3, 2]);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const label = String(Math.round(distance));
+    const mid = start.midPointFrom(end);
+    const width = ctx.measureText(label).width + 8;
+    ctx.fillRect(mid.x - width / 2, mid.y - 8, width, 16);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(label, mid.x, mid.y);
+    ctx.fillStyle = GUIDE_COLOR;
+  });
+
+  ctx.restore();
+};
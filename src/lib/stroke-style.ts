@@ -0,0 +1,108 @@
+import type { FabricObject } from "fabric";
+
+export type DashStyle = "solid" | "dashed" | "dotted" | "custom";
+export type LineCap = "butt" | "round" | "square";
+export type LineJoin = "miter" | "round" | "bevel";
+
+export interface StrokeStyle {
+  dash: DashStyle;
+  /** Dash and gap lengths in px, used when `dash` is "custom" */
+  customDash: number[];
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+}
+
+/** Fabric's own cap and join, so shapes keep their sharp corners. */
+export const DEFAULT_STROKE_STYLE: StrokeStyle = {
+  dash: "solid",
+  customDash: [12, 6],
+  lineCap: "butt",
+  lineJoin: "miter",
+};
+
+/** Round ends keep freehand brush strokes smooth. */
+export const BRUSH_STROKE_STYLE: StrokeStyle = { ...DEFAULT_STROKE_STYLE, lineCap: "round", lineJoin: "round" };
+
+export const dashStyles: { id: DashStyle; name: string }[] = [
+  { id: "solid", name: "Solid" },
+  { id: "dashed", name: "Dashed" },
+  { id: "dotted", name: "Dotted" },
+  { id: "custom", name: "Custom" },
+];
+
+export const lineCaps: { id: LineCap; name: string }[] = [
+  { id: "butt", name: "Butt" },
+  { id: "round", name: "Round" },
+  { id: "square", name: "Square" },
+];
+
+export const lineJoins: { id: LineJoin; name: string }[] = [
+  { id: "miter", name: "Miter" },
+  { id: "round", name: "Round" },
+  { id: "bevel", name: "Bevel" },
+];
+
+/** Parses "12 6" or "12, 6, 2, 6" into dash lengths; null if it isn't a usable pattern. */
+export const parseDashArray = (text: string) => {
+  const values = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some((value) => !Number.isFinite(value) || value < 0)) return null;
+  return values.every((value) => value === 0) ? null : values;
+};
+
+export const formatDashArray = (values: number[]) => values.join(" ");
+
+/**
+ * Dash pattern for a stroke `width` px wide. Dashes and dots grow with the
+ * stroke; round and square caps turn zero-length dashes into dots.
+ */
+export const getDashArray = (style: StrokeStyle, width: number): number[] | null => {
+  const w = Math.max(width, 1);
+  switch (style.dash) {
+    case "dashed":
+      return [w * 4, w * 2];
+    case "dotted":
+      return style.lineCap === "butt" ? [w, w] : [0, w * 2];
+    case "custom":
+      return style.customDash.length > 0 ? style.customDash : null;
+    default:
+      return null;
+  }
+};
+
+/** Fabric stroke properties for `style` at the given stroke width. */
+export const getStrokeProps = (style: StrokeStyle, width: number) => ({
+  strokeDashArray: getDashArray(style, width),
+  strokeLineCap: style.lineCap,
+  strokeLineJoin: style.lineJoin,
+});
+
+const sameDashes = (a: number[] | null, b: number[] | null) =>
+  (a?.length ?? 0) === (b?.length ?? 0) && (a ?? []).every((value, i) => Math.abs(value - b[i]) < 1e-6);
+
+/** Reads an object's stroke back into the settings that would produce it. */
+export const getStrokeStyle = (obj: FabricObject): StrokeStyle => {
+  const lineCap = (lineCaps.some((cap) => cap.id === obj.strokeLineCap) ? obj.strokeLineCap : "butt") as LineCap;
+  const lineJoin = (lineJoins.some((join) => join.id === obj.strokeLineJoin) ? obj.strokeLineJoin : "miter") as LineJoin;
+  const dashArray = obj.strokeDashArray?.length ? obj.strokeDashArray : null;
+  const base = { ...DEFAULT_STROKE_STYLE, lineCap, lineJoin };
+  if (!dashArray) return base;
+  const preset = (["dashed", "dotted"] as const).find((dash) =>
+    sameDashes(getDashArray({ ...base, dash }, obj.strokeWidth), dashArray)
+  );
+  return preset ? { ...base, dash: preset } : { ...base, dash: "custom", customDash: dashArray };
+};
+
+/** Changes the stroke width, rescaling a dashed or dotted pattern along with it. */
+export const applyStrokeWidth = (obj: FabricObject, width: number) => {
+  const style = getStrokeStyle(obj);
+  obj.set("strokeWidth", width);
+  if (style.dash === "dashed" || style.dash === "dotted") obj.set("strokeDashArray", getDashArray(style, width));
+};
+
+/** Changes only the given settings on the stroke of every object that has one. */
+export const applyStrokeStyle = (objects: FabricObject[], changes: Partial<StrokeStyle>) => {
+  objects.forEach((obj) => {
+    if (!obj.stroke) return;
+    obj.set(getStrokeProps({ ...getStrokeStyle(obj), ...changes }, obj.strokeWidth));
+  });
+};
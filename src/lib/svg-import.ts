@@ -0,0 +1,74 @@
+import { Canvas as FabricCanvas, FabricObject, Group, Point, loadSVGFromString, util } from "fabric";
+import { fitToViewport } from "@/lib/image-import";
+
+export const SVG_MIME_TYPE = "image/svg+xml";
+
+export const isSvgFile = (file: File) => file.type === SVG_MIME_TYPE || file.name.toLowerCase().endsWith(".svg");
+
+// SVG features Fabric's parser drops without telling anyone
+const unsupportedElements: Record<string, string> = {
+  filter: "filters",
+  mask: "masks",
+  pattern: "pattern fills",
+  marker: "line markers",
+  textPath: "text on a path",
+  foreignObject: "embedded HTML",
+  animate: "animations",
+  animateTransform: "animations",
+  animateMotion: "animations",
+  set: "animations",
+  script: "scripts",
+};
+
+const unsupportedAttributes: Record<string, string> = {
+  filter: "filters",
+  mask: "masks",
+  "marker-start": "line markers",
+  "marker-mid": "line markers",
+  "marker-end": "line markers",
+};
+
+/** Human readable names of the features in the document that won't be imported. */
+export const findUnsupportedFeatures = (doc: Document) => {
+  const found = new Set<string>();
+  doc.querySelectorAll("*").forEach((element) => {
+    const feature = unsupportedElements[element.localName];
+    if (feature) found.add(feature);
+    Object.entries(unsupportedAttributes).forEach(([attribute, name]) => {
+      if (element.hasAttribute(attribute)) found.add(name);
+    });
+  });
+  return [...found];
+};
+
+export class SvgImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SvgImportError";
+  }
+}
+
+/**
+ * Parses SVG markup into individual Fabric objects, scaled to fit the viewport and
+ * centred on `center`. Returns the objects (not yet added to the canvas) plus the
+ * unsupported features that were left out.
+ */
+export const parseSvgToObjects = async (canvas: FabricCanvas, markup: string, center?: Point) => {
+  const doc = new DOMParser().parseFromString(markup, SVG_MIME_TYPE);
+  if (doc.querySelector("parsererror") || doc.documentElement.localName !== "svg") {
+    throw new SvgImportError("The file is not valid SVG");
+  }
+  const unsupported = findUnsupportedFeatures(doc);
+
+  const { objects, options } = await loadSVGFromString(markup);
+  const parsed = objects.filter((obj): obj is FabricObject => Boolean(obj));
+  if (parsed.length < objects.length) unsupported.push("unrecognised elements");
+  if (parsed.length === 0) throw new SvgImportError("The SVG has no shapes that can be imported");
+
+  // Fit the drawing as a whole, then split it back up so every shape stays editable
+  const grouped = util.groupSVGElements(parsed, options);
+  fitToViewport(canvas, grouped, center);
+  const shapes = grouped instanceof Group ? grouped.removeAll() : [grouped];
+
+  return { objects: shapes as FabricObject[], unsupported };
+};
@@ -0,0 +1,217 @@
+import { Canvas as FabricCanvas, FabricObject, IText, TextStyleDeclaration, Textbox, cache } from "fabric";
+
+export type TextAlign = "left" | "center" | "right" | "justify";
+
+/** Text properties the text bar edits; names follow Fabric's. */
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: "normal" | "bold";
+  fontStyle: "normal" | "italic";
+  underline: boolean;
+  textAlign: TextAlign;
+  lineHeight: number;
+  /** In thousandths of an em */
+  charSpacing: number;
+}
+
+/** Changes from the text bar, plus the text color from the palette. */
+export type TextStyleChanges = Partial<TextStyle> & { fill?: string };
+
+/** Properties that can differ from one character to the next within a text object. */
+const CHARACTER_STYLE_KEYS = ["fontFamily", "fontSize", "fontWeight", "fontStyle", "underline", "fill"] as const;
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: "Arial",
+  fontSize: 24,
+  fontWeight: "normal",
+  fontStyle: "normal",
+  underline: false,
+  textAlign: "left",
+  lineHeight: 1.16,
+  charSpacing: 0,
+};
+
+export type FontSource = "system" | "web" | "local";
+
+export interface FontOption {
+  family: string;
+  source: FontSource;
+}
+
+/** Fonts every browser can draw without loading anything. */
+const SYSTEM_FONTS = [
+  "Arial",
+  "Helvetica",
+  "Verdana",
+  "Tahoma",
+  "Trebuchet MS",
+  "Georgia",
+  "Times New Roman",
+  "Courier New",
+  "Comic Sans MS",
+  "Impact",
+];
+
+/** Google Fonts offered in the picker, loaded the first time they are used. */
+const WEB_FONTS = ["Inter", "Roboto", "Lato", "Montserrat", "Playfair Display", "Merriweather", "Pacifico", "Source Code Pro"];
+
+export const defaultFonts: FontOption[] = [
+  ...SYSTEM_FONTS.map((family) => ({ family, source: "system" as const })),
+  ...WEB_FONTS.map((family) => ({ family, source: "web" as const })),
+];
+
+/** Drag distance below which the Text tool makes auto-width text instead of a box. */
+export const MIN_TEXTBOX_WIDTH = 20;
+
+export const isTextObject = (obj: FabricObject | undefined | null): obj is IText => obj instanceof IText;
+
+/** The selected characters of text being edited, or null when changes apply to the whole text. */
+export const getSelectedRange = (text: IText) =>
+  text.isEditing && text.selectionStart !== text.selectionEnd
+    ? { start: text.selectionStart, end: text.selectionEnd }
+    : null;
+
+/**
+ * The text's settings as the text bar shows them. While typing, character
+ * settings come from the start of the selection, or from the character before
+ * the cursor, which is the one new characters copy.
+ */
+export const getTextStyle = (text: IText): TextStyle => {
+  let character: Partial<TextStyleDeclaration> = {};
+  if (text.isEditing && text.text.length > 0) {
+    const position = getSelectedRange(text) ? text.selectionStart : Math.max(0, text.selectionStart - 1);
+    character = text.getStyleAtPosition(position, true);
+  }
+  const fontWeight = character.fontWeight ?? text.fontWeight;
+  const fontStyle = character.fontStyle ?? text.fontStyle;
+
+  return {
+    fontFamily: character.fontFamily ?? text.fontFamily,
+    fontSize: character.fontSize ?? text.fontSize,
+    fontWeight: fontWeight === "bold" || Number(fontWeight) >= 600 ? "bold" : "normal",
+    fontStyle: fontStyle === "italic" ? "italic" : "normal",
+    underline: character.underline ?? text.underline,
+    textAlign: (["left", "center", "right", "justify"].includes(text.textAlign) ? text.textAlign : "left") as TextAlign,
+    lineHeight: text.lineHeight,
+    charSpacing: text.charSpacing,
+  };
+};
+
+/**
+ * New text at `left, top`. A `width` makes a text box that wraps at that width;
+ * without one the text grows as it is typed.
+ */
+export const createText = (left: number, top: number, style: TextStyle, fill: string, width?: number) => {
+  const options = { left, top, fill, ...style };
+  return width ? new Textbox("", { ...options, width }) : new IText("", options);
+};
+
+const loadedWebFonts = new Set<string>();
+
+const getWebFontStylesheet = (family: string) =>
+  `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}:ital,wght@0,400;0,700;1,400;1,700&display=swap`;
+
+/** Fetches a Google Font stylesheet once and waits until the font can be drawn. */
+const loadWebFont = async (family: string) => {
+  if (!loadedWebFonts.has(family)) {
+    loadedWebFonts.add(family);
+    const link = document.createElement("link");
+    link.rel = "stylesheet";
+    link.href = getWebFontStylesheet(family);
+    document.head.appendChild(link);
+    await new Promise((resolve) => {
+      link.onload = resolve;
+      link.onerror = resolve;
+    });
+  }
+  await Promise.all([
+    document.fonts.load(`16px "${family}"`),
+    document.fonts.load(`bold 16px "${family}"`),
+  ]);
+};
+
+/**
+ * Makes sure `family` is ready before text is measured with it. Fabric caches
+ * glyph widths per family, so anything measured with a fallback font is reset.
+ */
+export const ensureFontLoaded = async (family: string) => {
+  if (WEB_FONTS.includes(family)) {
+    await loadWebFont(family);
+  } else {
+    await document.fonts.load(`16px "${family}"`).catch(() => undefined);
+  }
+  cache.clearFontCache(family);
+};
+
+/** Fonts set on individual characters. */
+const getStyledFontFamilies = (text: IText) =>
+  Object.values(text.styles ?? {}).flatMap((line) =>
+    Object.values(line).flatMap((style) => (style.fontFamily ? [style.fontFamily] : []))
+  );
+
+/** Loads the web fonts used by any text on the canvas and re-measures that text. */
+export const loadCanvasFonts = async (canvas: FabricCanvas) => {
+  const texts = canvas.getObjects().filter(isTextObject);
+  const families = new Set(texts.flatMap((text) => [text.fontFamily, ...getStyledFontFamilies(text)]));
+  await Promise.all([...families].map((family) => ensureFontLoaded(family)));
+  texts.forEach((text) => {
+    text.initDimensions();
+    text.setCoords();
+  });
+  canvas.requestRenderAll();
+};
+
+interface LocalFontData {
+  family: string;
+}
+
+/**
+ * Families installed on this computer, via the Local Font Access API. Browsers
+ * ask for permission first, so call it from a click.
+ */
+export const queryLocalFonts = async (): Promise<FontOption[]> => {
+  const query = (window as Window & { queryLocalFonts?: () => Promise<LocalFontData[]> }).queryLocalFonts;
+  if (!query) throw new Error("This browser can't list installed fonts");
+  const fonts = await query();
+  const known = new Set([...SYSTEM_FONTS, ...WEB_FONTS]);
+  const families = [...new Set(fonts.map((font) => font.family))].filter((family) => !known.has(family)).sort();
+  return families.map((family) => ({ family, source: "local" as const }));
+};
+
+/**
+ * Applies text properties to each text object and re-measures it. Character
+ * properties only go to the selected characters of text being edited; otherwise
+ * they replace any per-character values so the whole text changes.
+ */
+export const applyTextStyle = async (texts: IText[], style: TextStyleChanges) => {
+  if (style.fontFamily) await ensureFontLoaded(style.fontFamily);
+  const characterKeys = CHARACTER_STYLE_KEYS.filter((key) => key in style);
+  const characterStyle = Object.fromEntries(characterKeys.map((key) => [key, style[key]]));
+  const paragraphStyle = Object.fromEntries(
+    Object.entries(style).filter(([key]) => !(CHARACTER_STYLE_KEYS as readonly string[]).includes(key))
+  );
+
+  texts.forEach((text) => {
+    const range = getSelectedRange(text);
+    if (range) {
+      text.setSelectionStyles(characterStyle, range.start, range.end);
+      text.set(paragraphStyle);
+    } else {
+      characterKeys.forEach((key) => text.removeStyle(key));
+      text.set(style);
+    }
+    text.initDimensions();
+    text.setCoords();
+    // Toolbar clicks take the focus; give it back so typing carries on
+    if (text.isEditing) text.hiddenTextarea?.focus();
+    text.canvas?.requestRenderAll();
+  });
+};
+
+/** Stylesheet URLs for the web fonts used anywhere in the canvas's text. */
+export const getWebFontStylesheets = (canvas: FabricCanvas) => {
+  const texts = canvas.getObjects().filter(isTextObject);
+  const families = new Set(texts.flatMap((text) => [text.fontFamily, ...getStyledFontFamilies(text)]));
+  return [...families].filter((family) => WEB_FONTS.includes(family)).map(getWebFontStylesheet);
+};
@@ -0,0 +1,91 @@
+import { Canvas as FabricCanvas, Point, TBBox } from "fabric";
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+/** Zoom levels the zoom in/out buttons and shortcuts step through. */
+const ZOOM_STEPS = [0.1, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4, 6, 8];
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** Zooms so that `point` (viewport coordinates) stays under the pointer. */
+export const zoomAtPoint = (canvas: FabricCanvas, zoom: number, point: Point) => {
+  canvas.zoomToPoint(point, clampZoom(zoom));
+  canvas.requestRenderAll();
+};
+
+export const getViewportCenter = (canvas: FabricCanvas) => new Point(canvas.getWidth() / 2, canvas.getHeight() / 2);
+
+/** Next zoom step above or below the current zoom, around the middle of the view. */
+export const stepZoom = (canvas: FabricCanvas, direction: "in" | "out") => {
+  const zoom = canvas.getZoom();
+  const next =
+    direction === "in"
+      ? ZOOM_STEPS.find((step) => step > zoom + 1e-3) ?? MAX_ZOOM
+      : [...ZOOM_STEPS].reverse().find((step) => step < zoom - 1e-3) ?? MIN_ZOOM;
+  zoomAtPoint(canvas, next, getViewportCenter(canvas));
+};
+
+export const panBy = (canvas: FabricCanvas, dx: number, dy: number) => {
+  canvas.relativePan(new Point(dx, dy));
+  canvas.requestRenderAll();
+};
+
+/** Zooms and pans so `bounds` (canvas coordinates) fills the view with some margin. */
+export const zoomToBounds = (canvas: FabricCanvas, bounds: TBBox, margin = 0.9) => {
+  const width = canvas.getWidth();
+  const height = canvas.getHeight();
+  const zoom = clampZoom(
+    Math.min((width * margin) / Math.max(bounds.width, 1), (height * margin) / Math.max(bounds.height, 1))
+  );
+  const centerX = bounds.left + bounds.width / 2;
+  const centerY = bounds.top + bounds.height / 2;
+  canvas.setViewportTransform([zoom, 0, 0, zoom, width / 2 - centerX * zoom, height / 2 - centerY * zoom]);
+  canvas.requestRenderAll();
+};
+
+/**
+ * Wheel handling for the canvas: Ctrl/Cmd+wheel (which is also what trackpad
+ * pinches report) zooms around the pointer, a plain wheel or two-finger swipe pans.
+ */
+export const handleViewportWheel = (canvas: FabricCanvas, e: WheelEvent) => {
+  e.preventDefault();
+  // Line-based deltas (most mouse wheels in Firefox) are far smaller than pixel ones
+  const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1;
+  if (e.ctrlKey || e.metaKey) {
+    zoomAtPoint(canvas, canvas.getZoom() * 0.998 ** (e.deltaY * scale), canvas.getViewportPoint(e));
+  } else {
+    panBy(canvas, -e.deltaX * scale, -e.deltaY * scale);
+  }
+};
+
+/** Safari's proprietary pinch events; other browsers send Ctrl+wheel instead. */
+interface GestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+  clientY: number;
+}
+
+/** Trackpad pinch zoom in Safari. Returns a function that removes the listeners. */
+export const listenForGestureZoom = (canvas: FabricCanvas) => {
+  const element = canvas.getSelectionElement();
+  let startZoom = 1;
+
+  const handleStart = (e: Event) => {
+    e.preventDefault();
+    startZoom = canvas.getZoom();
+  };
+  const handleChange = (e: Event) => {
+    const gesture = e as GestureEvent;
+    e.preventDefault();
+    const rect = element.getBoundingClientRect();
+    zoomAtPoint(canvas, startZoom * gesture.scale, new Point(gesture.clientX - rect.left, gesture.clientY - rect.top));
+  };
+
+  element.addEventListener("gesturestart", handleStart);
+  element.addEventListener("gesturechange", handleChange);
+  return () => {
+    element.removeEventListener("gesturestart", handleStart);
+    element.removeEventListener("gesturechange", handleChange);
+  };
+};